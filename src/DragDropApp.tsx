@@ -5,12 +5,14 @@ import { JSX, createPortal, memo, useCallback, useMemo } from 'preact/compat';
 import { KanbanView } from './KanbanView';
 import { DraggableItem } from './components/Item/Item';
 import { DraggableLane } from './components/Lane/Lane';
+import { checkWipLimits, getWipViolations, isWipBlocked } from './components/Lane/helpers';
 import { KanbanContext } from './components/context';
-import { c, maybeCompleteForMove } from './components/helpers';
-import { Board, DataTypes, Item, Lane } from './components/types';
+import { c, canCompleteItem, getSelectedPaths, maybeCompleteForMove } from './components/helpers';
+import { Board, DataTypes, Item, ItemData, Lane } from './components/types';
 import { DndContext } from './dnd/components/DndContext';
 import { DragOverlay } from './dnd/components/DragOverlay';
-import { Entity, Nestable } from './dnd/types';
+import { DropOptions } from './dnd/managers/DndManager';
+import { Entity, Nestable, Path, ScopedEntityData } from './dnd/types';
 import {
   getEntityFromPath,
   insertEntity,
@@ -18,7 +20,12 @@ import {
   removeEntity,
   updateEntity,
 } from './dnd/util/data';
-import { getBoardModifiers } from './helpers/boardModifiers';
+import {
+  getBoardModifiers,
+  removeItems,
+  setItemParent,
+  stampLaneEntry,
+} from './helpers/boardModifiers';
 import KanbanPlugin from './main';
 import { frontmatterKey } from './parsers/common';
 import {
@@ -27,6 +34,179 @@ import {
   toggleTask,
 } from './parsers/helpers/inlineMetadata';
 
+// Lanes and placeholders in a swimlane row carry the row they belong to, and cards carry
+// their own swimlane. Returns undefined when the drop target isn't part of a swimlane row.
+function getDropSwimlane(dropEntityData: ScopedEntityData): string | null | undefined {
+  if (dropEntityData.swimlane !== undefined) return dropEntityData.swimlane;
+
+  if (dropEntityData.type === DataTypes.Item) {
+    const swimlane = (dropEntityData.data as ItemData).metadata.swimlane;
+    return swimlane || null;
+  }
+
+  return undefined;
+}
+
+function setItemSwimlane(item: Item, swimlane: string | null | undefined): Item {
+  if (swimlane === undefined || (item.data.metadata.swimlane || null) === swimlane) return item;
+
+  return update(item, {
+    data: { metadata: { swimlane: { $set: swimlane || undefined } } },
+  });
+}
+
+// Resolves the lane a dragged card would land in, so the lane's WIP limits can be checked
+function getLaneDrop(plugin: KanbanPlugin, dragEntity: Entity, dropEntity: Entity) {
+  const dragEntityData = dragEntity.getData();
+  const dropEntityData = dropEntity.getData();
+
+  if (dragEntity.scopeId === 'htmldnd' || dragEntityData.type !== DataTypes.Item) return null;
+
+  const dropPath = dropEntity.getPath();
+  const inDropArea =
+    dropEntityData.acceptsSort && !dropEntityData.acceptsSort.includes(dragEntityData.type);
+
+  const sourceView = plugin.getKanbanView(dragEntity.scopeId, dragEntityData.win);
+  const destinationView = plugin.getKanbanView(dropEntity.scopeId, dropEntityData.win);
+  const stateManager = plugin.stateManagers.get(destinationView?.file);
+  const sourceStateManager = plugin.stateManagers.get(sourceView?.file);
+
+  if (!stateManager || !sourceStateManager) return null;
+
+  const lane: Lane = getEntityFromPath(
+    stateManager.state,
+    inDropArea ? dropPath : dropPath.slice(0, -1)
+  );
+  const item: Item = getEntityFromPath(sourceStateManager.state, dragEntity.getPath());
+
+  if (lane?.type !== DataTypes.Lane || !item) return null;
+
+  const selection = getDragSelection(plugin, dragEntity);
+  const items = selection
+    ? selection.map((path) => getEntityFromPath(sourceStateManager.state, path) as Item)
+    : [item];
+
+  return { stateManager, lane, items };
+}
+
+// Dragging one of several selected cards moves all of them. Returns their paths in board order.
+function getDragSelection(plugin: KanbanPlugin, dragEntity: Entity): Path[] | null {
+  const dragEntityData = dragEntity.getData();
+
+  if (dragEntity.scopeId === 'htmldnd' || dragEntityData.type !== DataTypes.Item) return null;
+
+  const view = plugin.getKanbanView(dragEntity.scopeId, dragEntityData.win);
+  const stateManager = plugin.stateManagers.get(view?.file);
+
+  if (!stateManager || !view.selectedItems.size) return null;
+
+  const item = getEntityFromPath(stateManager.state, dragEntity.getPath());
+  if (!view.selectedItems.has(item?.id)) return null;
+
+  const paths = getSelectedPaths(stateManager.state, view.selectedItems);
+  return paths.length > 1 ? paths : null;
+}
+
+// Moves the selected cards to where the dragged card was dropped, keeping their order
+function moveSelection(
+  plugin: KanbanPlugin,
+  dragEntity: Entity,
+  dropEntity: Entity,
+  paths: Path[]
+) {
+  const dropPath = dropEntity.getPath();
+  const dragEntityData = dragEntity.getData();
+  const dropEntityData = dropEntity.getData();
+  const inDropArea =
+    dropEntityData.acceptsSort && !dropEntityData.acceptsSort.includes(dragEntityData.type);
+
+  const sourceView = plugin.getKanbanView(dragEntity.scopeId, dragEntityData.win);
+  const sourceStateManager = plugin.stateManagers.get(sourceView.file);
+  const destinationView = plugin.getKanbanView(dropEntity.scopeId, dropEntityData.win);
+  const destinationStateManager = plugin.stateManagers.get(destinationView.file);
+  const isSameBoard = sourceStateManager === destinationStateManager;
+
+  if (inDropArea) {
+    const parent = getEntityFromPath(destinationStateManager.state, dropPath);
+    const shouldAppend =
+      !isSameBoard &&
+      (destinationStateManager.getSetting('new-card-insertion-method') || 'append') === 'append';
+
+    dropPath.push(shouldAppend ? parent.children.length : 0);
+  }
+
+  const laneIndex = dropPath[0];
+  const destinationLane = destinationStateManager.state.children[laneIndex];
+  const boardView = destinationView.getViewState(frontmatterKey);
+  const swimlane =
+    boardView === 'list' || boardView === 'table' ? undefined : getDropSwimlane(dropEntityData);
+
+  // Cards that can't be completed yet are left where they are
+  const moving = paths.filter(
+    (path) =>
+      (isSameBoard && path[0] === laneIndex) ||
+      !destinationLane?.data.shouldMarkItemsComplete ||
+      canCompleteItem(sourceStateManager, getEntityFromPath(sourceStateManager.state, path) as Item)
+  );
+
+  if (!moving.length) return;
+
+  const replacements = new Map<Path, Item>();
+  const takeItems = (sourceBoard: Board, destinationBoard: Board) =>
+    moving.map((path) => {
+      const { next, replacement } = maybeCompleteForMove(
+        sourceStateManager,
+        sourceBoard,
+        path,
+        destinationStateManager,
+        destinationBoard,
+        dropPath,
+        getEntityFromPath(sourceBoard, path) as Item
+      );
+
+      if (replacement) replacements.set(path, replacement);
+
+      const moved =
+        isSameBoard && path[0] === laneIndex
+          ? next
+          : stampLaneEntry(destinationStateManager, next, destinationBoard.children[laneIndex]);
+      return setItemSwimlane(moved, swimlane);
+    });
+
+  if (!isSameBoard) {
+    sourceStateManager.setState((sourceBoard) => {
+      destinationStateManager.setState((destinationBoard) =>
+        insertEntity(destinationBoard, dropPath, takeItems(sourceBoard, destinationBoard))
+      );
+
+      return removeItems(sourceBoard, moving, (path) => replacements.get(path));
+    });
+    return;
+  }
+
+  sourceStateManager.setState((board) => {
+    const items = takeItems(board, board);
+
+    // The drop index counts the dragged cards above it, which are taken out first
+    const above = moving.filter(
+      (path) => path[0] === laneIndex && path[1] < dropPath[1] && !replacements.has(path)
+    ).length;
+
+    const newBoard = insertEntity(
+      removeItems(board, moving, (path) => replacements.get(path)),
+      [laneIndex, dropPath[1] - above],
+      items
+    );
+
+    // Remove sorting in the destination lane
+    if (board.children[laneIndex].data.sorted !== undefined) {
+      return updateEntity(newBoard, [laneIndex], { data: { $unset: ['sorted'] } });
+    }
+
+    return newBoard;
+  });
+}
+
 export function createApp(win: Window, plugin: KanbanPlugin) {
   return <DragDropApp win={win} plugin={plugin} />;
 }
@@ -39,8 +219,8 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
   const views = plugin.useKanbanViews(win);
   const portals: JSX.Element[] = views.map((view) => <View key={view.id} view={view} />);
 
-  const handleDrop = useCallback(
-    (dragEntity: Entity, dropEntity: Entity) => {
+  const applyDrop = useCallback(
+    (dragEntity: Entity, dropEntity: Entity, options?: DropOptions) => {
       if (!dragEntity || !dropEntity) {
         return;
       }
@@ -90,6 +270,9 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
         return;
       }
 
+      const selection = getDragSelection(plugin, dragEntity);
+      if (selection) return moveSelection(plugin, dragEntity, dropEntity, selection);
+
       const dragPath = dragEntity.getPath();
       const dropPath = dropEntity.getPath();
       const dragEntityData = dragEntity.getData();
@@ -109,9 +292,26 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
           dropPath.push(0);
         }
 
+        const boardView = view.getViewState(frontmatterKey);
+        const swimlane =
+          boardView === 'list' || boardView === 'table'
+            ? undefined
+            : getDropSwimlane(dropEntityData);
+
+        if (dragEntityData.type === DataTypes.Item && dragPath[0] !== dropPath[0]) {
+          const destinationLane = getEntityFromPath(stateManager.state, dropPath.slice(0, -1));
+
+          if (
+            destinationLane?.data?.shouldMarkItemsComplete &&
+            !canCompleteItem(stateManager, getEntityFromPath(stateManager.state, dragPath))
+          ) {
+            return;
+          }
+        }
+
         return stateManager.setState((board) => {
           const entity = getEntityFromPath(board, dragPath);
-          const newBoard: Board = moveEntity(
+          let newBoard: Board = moveEntity(
             board,
             dragPath,
             dropPath,
@@ -126,7 +326,11 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
                   dropPath,
                   entity
                 );
-                return next;
+                const moved =
+                  dragPath[0] === dropPath[0]
+                    ? next
+                    : stampLaneEntry(stateManager, next, board.children[dropPath[0]]);
+                return setItemSwimlane(moved, swimlane);
               }
               return entity;
             },
@@ -166,6 +370,23 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
             });
           }
 
+          // Alt-dropping a card makes it a subtask of the card it lands below
+          if (options?.altKey && entity.type === DataTypes.Item) {
+            const laneIndex = dropPath[0];
+            const itemIndex = newBoard.children[laneIndex].children.findIndex(
+              (item) => item.id === entity.id
+            );
+
+            if (itemIndex !== -1) {
+              newBoard = setItemParent(
+                stateManager,
+                newBoard,
+                [laneIndex, itemIndex],
+                itemIndex > 0 ? [laneIndex, itemIndex - 1] : null
+              );
+            }
+          }
+
           // Remove sorting in the destination lane
           const destinationParentPath = dropPath.slice(0, -1);
           const destinationParent = getEntityFromPath(board, destinationParentPath);
@@ -215,7 +436,9 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
               entity
             );
             replacementEntity = replacement;
-            toInsert.push(next);
+            toInsert.push(
+              stampLaneEntry(destinationStateManager, next, destinationBoard.children[dropPath[0]])
+            );
           } else {
             toInsert.push(entity);
           }
@@ -259,9 +482,33 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
     [views]
   );
 
+  const handleDrop = useCallback(
+    (dragEntity: Entity, dropEntity: Entity, options?: DropOptions) => {
+      const laneDrop = dragEntity && dropEntity && getLaneDrop(plugin, dragEntity, dropEntity);
+
+      if (laneDrop?.lane.data.wipMode && getWipViolations(laneDrop.lane, laneDrop.items).length) {
+        checkWipLimits(laneDrop.stateManager, laneDrop.lane, laneDrop.items).then((shouldDrop) => {
+          if (shouldDrop) applyDrop(dragEntity, dropEntity, options);
+        });
+        return;
+      }
+
+      applyDrop(dragEntity, dropEntity, options);
+    },
+    [applyDrop]
+  );
+
+  const canDrop = useCallback((dragEntity: Entity, dropEntity: Entity) => {
+    const laneDrop = getLaneDrop(plugin, dragEntity, dropEntity);
+    // Query lists are filled from their query, so cards can't be dropped into them
+    return (
+      !laneDrop || (!laneDrop.lane.data.query && !isWipBlocked(laneDrop.lane, laneDrop.items))
+    );
+  }, []);
+
   if (portals.length)
     return (
-      <DndContext win={win} onDrop={handleDrop}>
+      <DndContext win={win} onDrop={handleDrop} canDrop={canDrop}>
         {...portals}
         <DragOverlay>
           {(entity, styles) => {
@@ -289,6 +536,12 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
               ];
             }, [entity]);
 
+            // Shown on the dragged card when the whole selection moves with it
+            const selectionCount = useMemo(
+              () => getDragSelection(plugin, entity)?.length ?? 0,
+              [entity]
+            );
+
             if (data?.type === DataTypes.Lane) {
               const boardView =
                 context?.view.viewSettings[frontmatterKey] ||
@@ -327,6 +580,7 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
                 <KanbanContext.Provider value={context}>
                   <div className={c('drag-container')} style={styles}>
                     <DraggableItem item={data as Item} itemIndex={0} isStatic={true} />
+                    {selectionCount > 1 && <div className={c('drag-count')}>{selectionCount}</div>}
                   </div>
                 </KanbanContext.Provider>
               );
@@ -15,14 +15,25 @@ import {
 import { KanbanFormat, KanbanSettings, KanbanViewSettings, SettingsModal } from './Settings';
 import { Kanban } from './components/Kanban';
 import { BasicMarkdownRenderer } from './components/MarkdownRenderer/MarkdownRenderer';
+import { promptText } from './components/PromptModal';
 import { c } from './components/helpers';
 import { Board } from './components/types';
 import { getParentWindow } from './dnd/util/getWindow';
 import { gotoNextDailyNote, gotoPrevDailyNote, hasFrontmatterKeyRaw } from './helpers';
+import {
+  applyPerspective,
+  deletePerspective,
+  getCurrentPerspective,
+  getMetadataKeys,
+  getPerspectives,
+  savePerspective,
+  toggleHiddenMetadata,
+} from './helpers/perspectives';
 import { bindMarkdownEvents } from './helpers/renderMarkdown';
 import { PromiseQueue } from './helpers/util';
 import { t } from './lang/helpers';
 import KanbanPlugin from './main';
+import { AggregateFormat } from './parsers/AggregateFormat';
 import { frontmatterKey } from './parsers/common';
 
 export const kanbanViewType = 'kanban';
@@ -39,6 +50,10 @@ export class KanbanView extends TextFileView implements HoverParent {
 
   activeEditor: any;
   viewSettings: KanbanViewSettings = {};
+  // The board's current search, kept here so it can be saved with a perspective
+  searchQuery: string = '';
+  // Ids of the selected cards, which are dragged together
+  selectedItems: Set<string> = new Set();
 
   get isPrimary(): boolean {
     return this.plugin.getStateManager(this.file)?.getAView() === this;
@@ -117,6 +132,11 @@ export class KanbanView extends TextFileView implements HoverParent {
 
   setView(view: KanbanFormat) {
     this.setViewState(frontmatterKey, view);
+
+    // The frontmatter key is what marks a board as an aggregate board, so its view isn't stored
+    const stateManager = this.plugin.stateManagers.get(this.file);
+    if (stateManager?.parser instanceof AggregateFormat) return;
+
     this.app.fileManager.processFrontMatter(this.file, (frontmatter) => {
       frontmatter[frontmatterKey] = view;
     });
@@ -313,6 +333,72 @@ export class KanbanView extends TextFileView implements HoverParent {
     ).open();
   }
 
+  showPerspectiveMenu(evt: MouseEvent) {
+    const stateManager = this.plugin.stateManagers.get(this.file);
+    const perspectives = getPerspectives(stateManager);
+    const active = this.getViewState('perspective');
+    const hidden = this.getViewState('hidden-metadata') || [];
+    const metadataKeys = getMetadataKeys(stateManager.state);
+    const menu = new Menu();
+
+    perspectives.forEach((perspective) => {
+      menu.addItem((item) =>
+        item
+          .setTitle(perspective.name)
+          .setIcon('lucide-layers')
+          .setChecked(perspective.name === active)
+          .onClick(() => applyPerspective(this, stateManager, perspective))
+      );
+    });
+
+    if (perspectives.length) menu.addSeparator();
+
+    menu.addItem((item) =>
+      item
+        .setTitle(t('Save perspective'))
+        .setIcon('lucide-save')
+        .onClick(async () => {
+          const name = await promptText(
+            this.app,
+            t('Name this perspective'),
+            t('Save'),
+            active || ''
+          );
+
+          if (name) savePerspective(stateManager, getCurrentPerspective(this, stateManager, name));
+        })
+    );
+
+    if (perspectives.some((perspective) => perspective.name === active)) {
+      menu.addItem((item) =>
+        item
+          .setTitle(t('Delete perspective'))
+          .setIcon('lucide-trash-2')
+          .onClick(() => deletePerspective(this, stateManager, active))
+      );
+    }
+
+    if (metadataKeys.length) {
+      menu.addSeparator().addItem((item) => {
+        const submenu: Menu = (item as any)
+          .setTitle(t('Hide metadata'))
+          .setIcon('lucide-eye-off')
+          .setSubmenu();
+
+        metadataKeys.forEach((key) => {
+          submenu.addItem((i) =>
+            i
+              .setTitle(key)
+              .setChecked(hidden.includes(key))
+              .onClick(() => toggleHiddenMetadata(this, stateManager, key))
+          );
+        });
+      });
+    }
+
+    menu.showAtMouseEvent(evt);
+  }
+
   onPaneMenu(menu: Menu, source: string, callSuper: boolean = true) {
     if (source !== 'more-options') {
       super.onPaneMenu(menu, source);
@@ -393,7 +479,7 @@ export class KanbanView extends TextFileView implements HoverParent {
               item
                 .setTitle(t('View as board'))
                 .setIcon('lucide-trello')
-                .setChecked(view === 'basic' || view === 'board')
+                .setChecked(view === 'basic' || view === 'board' || view === 'aggregate')
                 .onClick(() => this.setView('board'))
             )
             .addItem((item) =>
@@ -410,6 +496,20 @@ export class KanbanView extends TextFileView implements HoverParent {
                 .setChecked(view === 'list')
                 .onClick(() => this.setView('list'))
             )
+            .addItem((item) =>
+              item
+                .setTitle(t('View as report'))
+                .setIcon('lucide-bar-chart-3')
+                .setChecked(view === 'report')
+                .onClick(() => this.setView('report'))
+            )
+            .addItem((item) =>
+              item
+                .setTitle(t('View as calendar'))
+                .setIcon('lucide-calendar-days')
+                .setChecked(view === 'calendar')
+                .onClick(() => this.setView('calendar'))
+            )
             .showAtMouseEvent(evt);
         }
       );
@@ -418,6 +518,22 @@ export class KanbanView extends TextFileView implements HoverParent {
       delete this.actionButtons['show-set-view'];
     }
 
+    this.plugin.syncPerspectiveCommands();
+
+    if (stateManager.getSetting('show-perspectives') && !this.actionButtons['show-perspectives']) {
+      this.actionButtons['show-perspectives'] = this.addAction(
+        'lucide-layers',
+        t('Perspectives'),
+        (evt) => this.showPerspectiveMenu(evt)
+      );
+    } else if (
+      !stateManager.getSetting('show-perspectives') &&
+      this.actionButtons['show-perspectives']
+    ) {
+      this.actionButtons['show-perspectives'].remove();
+      delete this.actionButtons['show-perspectives'];
+    }
+
     if (stateManager.getSetting('show-search') && !this.actionButtons['show-search']) {
       this.actionButtons['show-search'] = this.addAction('lucide-search', t('Search...'), () => {
         this.emitter.emit('hotkey', { commandId: 'editor:open-search' });
@@ -16,12 +16,16 @@ import {
   getDefaultTimeFormat,
 } from './components/helpers';
 import {
+  AgeColor,
+  AgeColorSetting,
+  AgeColorSettingTemplate,
   DataKey,
   DateColor,
   DateColorSetting,
   DateColorSettingTemplate,
   MetadataSetting,
   MetadataSettingTemplate,
+  Perspective,
   TagColor,
   TagColorSetting,
   TagColorSettingTemplate,
@@ -40,6 +44,7 @@ import {
   defaultTimeTrigger,
   getListOptions,
 } from './settingHelpers';
+import { cleanUpAgeSettings, renderAgeSettings } from './settings/AgeColorSettings';
 import { cleanUpDateSettings, renderDateSettings } from './settings/DateColorSettings';
 import { cleanupMetadataSettings, renderMetadataSettings } from './settings/MetadataSettings';
 import { cleanUpTagSettings, renderTagSettings } from './settings/TagColorSettings';
@@ -47,14 +52,23 @@ import { cleanUpTagSortSettings, renderTagSortSettings } from './settings/TagSor
 
 const numberRegEx = /^\d+(?:\.\d+)?$/;
 
-export type KanbanFormat = 'basic' | 'board' | 'table' | 'list';
+export type KanbanFormat =
+  | 'basic'
+  | 'board'
+  | 'table'
+  | 'list'
+  | 'report'
+  | 'calendar'
+  | 'aggregate';
 
 export interface KanbanSettings {
   [frontmatterKey]?: KanbanFormat;
+  'age-colors'?: AgeColor[];
   'append-archive-date'?: boolean;
   'archive-date-format'?: string;
   'archive-date-separator'?: string;
   'archive-with-date'?: boolean;
+  'calendar-mode'?: 'month' | 'week';
   'date-colors'?: DateColor[];
   'date-display-format'?: string;
   'date-format'?: string;
@@ -63,6 +77,7 @@ export interface KanbanSettings {
   'date-trigger'?: string;
   'full-list-lane-width'?: boolean;
   'hide-card-count'?: boolean;
+  'hidden-metadata'?: string[];
   'inline-metadata-position'?: 'body' | 'footer' | 'metadata-table';
   'lane-width'?: number;
   'link-date-to-daily-note'?: boolean;
@@ -76,33 +91,43 @@ export interface KanbanSettings {
   'new-line-trigger'?: 'enter' | 'shift-enter';
   'new-note-folder'?: string;
   'new-note-template'?: string;
+  perspective?: string;
+  perspectives?: Perspective[];
+  'prevent-blocked-completion'?: boolean;
   'show-add-list'?: boolean;
   'show-archive-all'?: boolean;
   'show-board-settings'?: boolean;
   'show-checkboxes'?: boolean;
+  'show-perspectives'?: boolean;
   'show-relative-date'?: boolean;
   'show-search'?: boolean;
   'show-set-view'?: boolean;
   'show-view-as-markdown'?: boolean;
+  'table-group'?: string;
   'table-sizing'?: Record<string, number>;
   'tag-action'?: 'kanban' | 'obsidian';
   'tag-colors'?: TagColor[];
   'tag-sort'?: TagSort[];
   'time-format'?: string;
   'time-trigger'?: string;
+  'track-lane-age'?: boolean;
 }
 
 export interface KanbanViewSettings {
   [frontmatterKey]?: KanbanFormat;
+  'hidden-metadata'?: string[];
   'list-collapse'?: boolean[];
+  perspective?: string;
 }
 
 export const settingKeyLookup: Set<keyof KanbanSettings> = new Set([
   frontmatterKey,
+  'age-colors',
   'append-archive-date',
   'archive-date-format',
   'archive-date-separator',
   'archive-with-date',
+  'calendar-mode',
   'date-colors',
   'date-display-format',
   'date-format',
@@ -111,6 +136,7 @@ export const settingKeyLookup: Set<keyof KanbanSettings> = new Set([
   'date-trigger',
   'full-list-lane-width',
   'hide-card-count',
+  'hidden-metadata',
   'inline-metadata-position',
   'lane-width',
   'link-date-to-daily-note',
@@ -124,20 +150,26 @@ export const settingKeyLookup: Set<keyof KanbanSettings> = new Set([
   'new-line-trigger',
   'new-note-folder',
   'new-note-template',
+  'perspective',
+  'perspectives',
+  'prevent-blocked-completion',
   'show-add-list',
   'show-archive-all',
   'show-board-settings',
   'show-checkboxes',
+  'show-perspectives',
   'show-relative-date',
   'show-search',
   'show-set-view',
   'show-view-as-markdown',
+  'table-group',
   'table-sizing',
   'tag-action',
   'tag-colors',
   'tag-sort',
   'time-format',
   'time-trigger',
+  'track-lane-age',
 ]);
 
 export type SettingRetriever = <K extends keyof KanbanSettings>(
@@ -958,6 +990,76 @@ export class SettingsManager {
       });
     });
 
+    new Setting(contentEl)
+      .setName(t('Track time in list'))
+      .setDesc(
+        t(
+          'When toggled, cards record when they are moved to another list and show how long they have been in their current list.'
+        )
+      )
+      .then((setting) => {
+        let toggleComponent: ToggleComponent;
+
+        setting
+          .addToggle((toggle) => {
+            toggleComponent = toggle;
+
+            const [value, globalValue] = this.getSetting('track-lane-age', local);
+
+            if (value !== undefined) {
+              toggle.setValue(value as boolean);
+            } else if (globalValue !== undefined) {
+              toggle.setValue(globalValue as boolean);
+            }
+
+            toggle.onChange((newValue) => {
+              this.applySettingsUpdate({
+                'track-lane-age': {
+                  $set: newValue,
+                },
+              });
+            });
+          })
+          .addExtraButton((b) => {
+            b.setIcon('lucide-rotate-ccw')
+              .setTooltip(t('Reset to default'))
+              .onClick(() => {
+                const [, globalValue] = this.getSetting('track-lane-age', local);
+                toggleComponent.setValue(!!globalValue);
+
+                this.applySettingsUpdate({
+                  $unset: ['track-lane-age'],
+                });
+              });
+          });
+      });
+
+    new Setting(contentEl).then((setting) => {
+      const [value] = this.getSetting('age-colors', local);
+
+      const keys: AgeColorSetting[] = ((value || []) as AgeColor[]).map((k) => {
+        return {
+          ...AgeColorSettingTemplate,
+          id: generateInstanceId(),
+          data: k,
+        };
+      });
+
+      renderAgeSettings(setting.settingEl, keys, (keys: AgeColorSetting[]) =>
+        this.applySettingsUpdate({
+          'age-colors': {
+            $set: keys.map((k) => k.data),
+          },
+        })
+      );
+
+      this.cleanupFns.push(() => {
+        if (setting.settingEl) {
+          cleanUpAgeSettings(setting.settingEl);
+        }
+      });
+    });
+
     new Setting(contentEl)
       .setName(t('Add date and time to archived cards'))
       .setDesc(
@@ -1251,6 +1353,50 @@ export class SettingsManager {
           });
       });
 
+    new Setting(contentEl)
+      .setName(t('Prevent completing blocked cards'))
+      .setDesc(
+        t(
+          'When toggled, cards that depend on unfinished cards (⛔) cannot be moved to a list that marks cards complete. Otherwise a warning is shown.'
+        )
+      )
+      .then((setting) => {
+        let toggleComponent: ToggleComponent;
+
+        setting
+          .addToggle((toggle) => {
+            toggleComponent = toggle;
+
+            const [value, globalValue] = this.getSetting('prevent-blocked-completion', local);
+
+            if (value !== undefined) {
+              toggle.setValue(value as boolean);
+            } else if (globalValue !== undefined) {
+              toggle.setValue(globalValue as boolean);
+            }
+
+            toggle.onChange((newValue) => {
+              this.applySettingsUpdate({
+                'prevent-blocked-completion': {
+                  $set: newValue,
+                },
+              });
+            });
+          })
+          .addExtraButton((b) => {
+            b.setIcon('lucide-rotate-ccw')
+              .setTooltip(t('Reset to default'))
+              .onClick(() => {
+                const [, globalValue] = this.getSetting('prevent-blocked-completion', local);
+                toggleComponent.setValue(!!globalValue);
+
+                this.applySettingsUpdate({
+                  $unset: ['prevent-blocked-completion'],
+                });
+              });
+          });
+      });
+
     contentEl.createEl('br');
     contentEl.createEl('h4', { text: t('Linked Page Metadata') });
     contentEl.createEl('p', {
@@ -1530,6 +1676,46 @@ export class SettingsManager {
             });
         });
     });
+
+    new Setting(contentEl).setName(t('Perspectives')).then((setting) => {
+      let toggleComponent: ToggleComponent;
+
+      setting
+        .addToggle((toggle) => {
+          toggleComponent = toggle;
+
+          const [value, globalValue] = this.getSetting('show-perspectives', local);
+
+          if (value !== undefined && value !== null) {
+            toggle.setValue(value as boolean);
+          } else if (globalValue !== undefined && globalValue !== null) {
+            toggle.setValue(globalValue as boolean);
+          } else {
+            // default
+            toggle.setValue(true);
+          }
+
+          toggle.onChange((newValue) => {
+            this.applySettingsUpdate({
+              'show-perspectives': {
+                $set: newValue,
+              },
+            });
+          });
+        })
+        .addExtraButton((b) => {
+          b.setIcon('lucide-rotate-ccw')
+            .setTooltip(t('Reset to default'))
+            .onClick(() => {
+              const [, globalValue] = this.getSetting('show-perspectives', local);
+              toggleComponent.setValue(!!globalValue);
+
+              this.applySettingsUpdate({
+                $unset: ['show-perspectives'],
+              });
+            });
+        });
+    });
   }
 
   cleanUp() {
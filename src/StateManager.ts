@@ -4,8 +4,11 @@ import { useEffect, useState } from 'preact/compat';
 
 import { KanbanView } from './KanbanView';
 import { KanbanSettings, SettingRetrievers } from './Settings';
+import { recordLaneSnapshot, removeArchiveDate } from './components/Report/helpers';
 import { getDefaultDateFormat, getDefaultTimeFormat } from './components/helpers';
 import { Board, BoardTemplate, Item } from './components/types';
+import { fillQueryLanes } from './helpers/queryLanes';
+import { AggregateFormat, isAggregateBoard } from './parsers/AggregateFormat';
 import { ListFormat } from './parsers/List';
 import { FolderFormat } from './parsers/FolderFormat';
 import { BaseFormat, frontmatterKey, shouldRefreshBoard } from './parsers/common';
@@ -28,27 +31,38 @@ export class StateManager {
 
   parser: BaseFormat;
 
+  // Boards loaded without a view, like the sources of an aggregate board, are saved through this
+  saveWithoutView: ((data: string) => void) | null = null;
+
   constructor(
     app: App,
-    initialView: KanbanView,
+    initialView: KanbanView | null,
     initialData: string,
     onEmpty: () => void,
-    getGlobalSettings: () => KanbanSettings
+    getGlobalSettings: () => KanbanSettings,
+    file: TFile = initialView?.file
   ) {
-    console.log('[StateManager] Constructor called for file:', initialView.file.path);
+    console.log('[StateManager] Constructor called for file:', file.path);
     this.app = app;
-    this.file = initialView.file;
+    this.file = file;
     this.onEmpty = onEmpty;
     this.getGlobalSettings = getGlobalSettings;
-    this.parser = this.detectFormat();
+    this.parser = this.detectFormat(initialData);
     console.log('[StateManager] Format detected:', this.parser.constructor.name);
 
-    this.registerView(initialView, initialData, true);
+    // Boards loaded without a view, like the sources of an aggregate board, are parsed right away
+    if (initialView) {
+      this.registerView(initialView, initialData, true);
+    } else {
+      this.setState(this.getParsedBoard(initialData), false);
+    }
     console.log('[StateManager] Constructor completed');
   }
 
-  private detectFormat(): BaseFormat {
+  private detectFormat(data: string): BaseFormat {
     console.log('[StateManager] Detecting format for file:', this.file.path);
+
+    if (isAggregateBoard(data)) return new AggregateFormat(this);
     console.log('[StateManager] File name:', this.file.name, 'Parent folder:', this.file.parent?.name);
     
     // Check if we have a folder structure by looking for folders containing .md files
@@ -65,16 +79,20 @@ export class StateManager {
         
         console.log('[StateManager] Checking folder:', child.name, 'children count:', child.children.length);
         
-        // Check if this folder contains .md files directly (tasks)
-        const hasMarkdownFiles = child.children.some(f => {
-          const isMarkdown = f instanceof TFile && f.extension === 'md';
-          if (isMarkdown) {
-            console.log('[StateManager] Found markdown file in', child.name + ':', f.name);
-          }
-          return isMarkdown;
-        });
-        
-        return hasMarkdownFiles;
+        // Check if this folder contains .md files (tasks), directly or in a swimlane subfolder
+        const hasMarkdownFiles = (folder: TFolder) =>
+          folder.children.some((f) => {
+            const isMarkdown = f instanceof TFile && f.extension === 'md';
+            if (isMarkdown) {
+              console.log('[StateManager] Found markdown file in', folder.path + ':', f.name);
+            }
+            return isMarkdown;
+          });
+
+        return (
+          hasMarkdownFiles(child) ||
+          child.children.some((f) => f instanceof TFolder && hasMarkdownFiles(f))
+        );
       });
       
       console.log('[StateManager] Has column folders with tasks:', hasColumnFolders);
@@ -129,6 +147,7 @@ export class StateManager {
       this.viewSet.delete(view);
 
       if (this.viewSet.size === 0) {
+        this.parser.unload?.();
         this.onEmpty();
       }
     }
@@ -175,6 +194,8 @@ export class StateManager {
       this.viewSet.forEach((view) => {
         view.data = fileStr;
       });
+    } else if (this.saveWithoutView) {
+      this.saveWithoutView(this.parser.boardToMd(this.state));
     }
   }
 
@@ -203,6 +224,7 @@ export class StateManager {
   setState(state: Board | ((board: Board) => Board), shouldSave: boolean = true) {
     console.log('[StateManager] setState called, shouldSave:', shouldSave, 'receivers count:', this.stateReceivers.length);
     try {
+      const oldState = this.state;
       const oldSettings = this.state?.data.settings;
       const newState = typeof state === 'function' ? state(this.state) : state;
       const newSettings = newState?.data.settings;
@@ -224,6 +246,13 @@ export class StateManager {
         this.compileSettings();
       }
 
+      // Query lists are refreshed whenever the board is read back from disk
+      this.state = fillQueryLanes(this, this.state, oldState, !shouldSave);
+
+      if (shouldSave) {
+        this.state = recordLaneSnapshot(this.state);
+      }
+
       console.log('[StateManager] Updating views, view count:', this.viewSet.size);
       this.viewSet.forEach((view) => {
         view.initHeaderButtons();
@@ -347,9 +376,11 @@ export class StateManager {
       'show-board-settings': this.getSettingRaw('show-board-settings', suppliedSettings) ?? true,
       'show-search': this.getSettingRaw('show-search', suppliedSettings) ?? true,
       'show-set-view': this.getSettingRaw('show-set-view', suppliedSettings) ?? true,
+      'show-perspectives': this.getSettingRaw('show-perspectives', suppliedSettings) ?? true,
       'tag-colors': this.getSettingRaw('tag-colors', suppliedSettings) ?? [],
       'tag-sort': this.getSettingRaw('tag-sort', suppliedSettings) ?? [],
       'date-colors': this.getSettingRaw('date-colors', suppliedSettings) ?? [],
+      'age-colors': this.getSettingRaw('age-colors', suppliedSettings) ?? [],
       'tag-action': this.getSettingRaw('tag-action', suppliedSettings) ?? 'obsidian',
     };
   }
@@ -447,7 +478,12 @@ export class StateManager {
     );
   }
 
-  onFileMetadataChange() {
+  onFileMetadataChange(file?: TFile) {
+    // Folder boards patch themselves from vault events for files in their own folder
+    if (file && this.parser instanceof FolderFormat && this.parser.isInBoardFolder(file)) {
+      return;
+    }
+
     this.reparseBoardFromMd();
   }
 
@@ -484,6 +520,9 @@ export class StateManager {
     };
 
     const lanes = board.children.map((lane) => {
+      // Cards in query lists belong to other files, so they stay where they are
+      if (lane.data.query) return lane;
+
       return update(lane, {
         children: {
           $set: lane.children.filter((item) => {
@@ -518,6 +557,47 @@ export class StateManager {
     }
   }
 
+  restoreArchivedItem(item: Item) {
+    const board = this.state;
+    const archiveIndex = board.data.archive.indexOf(item);
+
+    if (archiveIndex === -1 || !board.children.length) return;
+
+    // Cards go back to the list they were archived from, or the first list
+    const laneIndex = Math.max(
+      0,
+      board.children.findIndex((lane) => lane.data.title === item.data.metadata.archived_from)
+    );
+
+    const unarchived = update(item, {
+      data: {
+        metadata: {
+          $unset: ['archived_from', 'archived_at'],
+        },
+      },
+    });
+    const titleRaw = removeArchiveDate(this, item.data.titleRaw);
+    const restored =
+      titleRaw === item.data.titleRaw ? unarchived : this.updateItemContent(unarchived, titleRaw);
+
+    this.setState(
+      update(board, {
+        children: {
+          [laneIndex]: {
+            children: {
+              $push: [restored],
+            },
+          },
+        },
+        data: {
+          archive: {
+            $splice: [[archiveIndex, 1]],
+          },
+        },
+      })
+    );
+  }
+
   getNewItem(content: string, checkChar: string, forceEdit?: boolean) {
     return this.parser.newItem(content, checkChar, forceEdit);
   }
@@ -0,0 +1,150 @@
+import { App, ButtonComponent, FuzzySuggestModal, Modal, Notice, Setting, TFile } from 'obsidian';
+import { kanbanViewType } from 'src/KanbanView';
+import { KanbanSettings } from 'src/Settings';
+import {
+  ImportFormat,
+  ImportedBoard,
+  createImportedBoard,
+  getImportReport,
+  parseImportedBoard,
+} from 'src/helpers/boardImport';
+import { t } from 'src/lang/helpers';
+
+import { c } from './helpers';
+
+// Lists the vault's JSON files, and shows the import report for the chosen one
+export class BoardImportFileModal extends FuzzySuggestModal<TFile> {
+  settings: KanbanSettings;
+
+  constructor(app: App, settings: KanbanSettings) {
+    super(app);
+    this.settings = settings;
+    this.setPlaceholder(t('Choose a Trello or GitHub Projects JSON export'));
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getFiles().filter((file) => file.extension === 'json');
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  async onChooseItem(file: TFile) {
+    let json: any;
+
+    try {
+      json = JSON.parse(await this.app.vault.cachedRead(file));
+    } catch (e) {
+      new Notice(t('This file is not valid JSON'));
+      return;
+    }
+
+    const imported = parseImportedBoard(json, file.basename);
+
+    if (!imported) {
+      new Notice(t('This file is not a Trello or GitHub Projects export'));
+      return;
+    }
+
+    new BoardImportModal(this.app, this.settings, file, imported).open();
+  }
+}
+
+// A dry run of the import: what the new board would hold, and anything that couldn't be imported.
+// Nothing is written until the board is created.
+export class BoardImportModal extends Modal {
+  settings: KanbanSettings;
+  file: TFile;
+  imported: ImportedBoard;
+  format: ImportFormat = 'list';
+
+  constructor(app: App, settings: KanbanSettings, file: TFile, imported: ImportedBoard) {
+    super(app);
+    this.settings = settings;
+    this.file = file;
+    this.imported = imported;
+  }
+
+  onOpen() {
+    const { contentEl, modalEl, imported } = this;
+    const report = getImportReport(imported);
+
+    modalEl.addClass(c('board-import-modal'));
+    this.titleEl.setText(`${t('Import board')}: ${imported.name}`);
+
+    contentEl.createEl('p', {
+      text: `${t('Source')}: ${imported.source === 'trello' ? 'Trello' : 'GitHub Projects'}`,
+      cls: c('board-import-source'),
+    });
+
+    new Setting(contentEl)
+      .setName(t('Board format'))
+      .setDesc(t('A folder board keeps each card in its own note.'))
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('list', t('Markdown file'))
+          .addOption('folder', t('Folder of notes'))
+          .setValue(this.format)
+          .onChange((value) => {
+            this.format = value as ImportFormat;
+          });
+      });
+
+    const summary = contentEl.createDiv({ cls: c('board-import-report') });
+
+    summary.createEl('h4', { text: t('Lists') });
+    summary.createEl('ul', {}, (ul) => {
+      report.lanes.forEach((lane) => ul.createEl('li', { text: `${lane.title}: ${lane.cards}` }));
+    });
+
+    summary.createEl('ul', {}, (ul) => {
+      ul.createEl('li', { text: `${t('Cards')}: ${report.cards}` });
+      ul.createEl('li', { text: `${t('Archived cards')}: ${report.archived}` });
+      ul.createEl('li', { text: `${t('Subtasks')}: ${report.subtasks}` });
+      ul.createEl('li', { text: `${t('Cards with a due date')}: ${report.dated}` });
+      ul.createEl('li', {
+        text: `${t('Tags')}: ${report.tags.length ? report.tags.join(', ') : t('None')}`,
+      });
+    });
+
+    if (imported.warnings.length) {
+      summary.createEl('h4', { text: t('Warnings') });
+      summary.createEl('ul', { cls: c('board-import-warnings') }, (ul) => {
+        imported.warnings.forEach((warning) => ul.createEl('li', { text: warning }));
+      });
+    }
+
+    const buttons = contentEl.createDiv({ cls: 'modal-button-container' });
+
+    new ButtonComponent(buttons)
+      .setButtonText(t('Create board'))
+      .setCta()
+      .onClick(() => this.createBoard());
+
+    new ButtonComponent(buttons).setButtonText(t('Cancel')).onClick(() => this.close());
+  }
+
+  // The new board goes next to the export it was made from
+  async createBoard() {
+    const { app, settings, imported, format, file } = this;
+
+    this.close();
+
+    try {
+      const board = await createImportedBoard(app, settings, imported, format, file.parent);
+
+      await app.workspace.getLeaf().setViewState({
+        type: kanbanViewType,
+        state: { file: board.path },
+      });
+    } catch (e) {
+      console.error(e);
+      new Notice(t('The board could not be imported'));
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
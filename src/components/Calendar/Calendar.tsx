@@ -0,0 +1,226 @@
+import classcat from 'classcat';
+import update from 'immutability-helper';
+import { moment } from 'obsidian';
+import { useContext, useMemo, useState } from 'preact/compat';
+import { StateManager } from 'src/StateManager';
+import { t } from 'src/lang/helpers';
+
+import { Icon } from '../Icon/Icon';
+import { getLaneColor } from '../Lane/helpers';
+import { KanbanContext, SearchContext } from '../context';
+import { c } from '../helpers';
+import { Board } from '../types';
+import {
+  CalendarEntry,
+  CalendarMode,
+  calendarDayFormat,
+  getCalendarDays,
+  getCalendarEntries,
+  getCalendarTitle,
+  getEntriesByDay,
+  setCalendarDate,
+} from './helpers';
+
+// Cards are moved between days with native drag and drop. Their drags carry this type, so the
+// board's handling of dropped text and files leaves them alone.
+const calendarDragType = 'application/x-kanban-calendar-card';
+const unscheduledKey = 'unscheduled';
+
+function isCalendarDrag(e: DragEvent) {
+  return !!e.dataTransfer?.types.includes(calendarDragType);
+}
+
+interface CalendarCardProps {
+  entry: CalendarEntry;
+  stateManager: StateManager;
+  timeFormat: string;
+}
+
+function CalendarCard({ entry, stateManager, timeFormat }: CalendarCardProps) {
+  const { item, lane, laneIndex } = entry;
+  const time = entry.source === 'date' ? item.data.metadata.time : null;
+
+  return (
+    <div
+      className={classcat([c('calendar-card'), { 'is-complete': item.data.checked }])}
+      draggable={!item.data.metadata.querySource}
+      title={lane.data.title}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(calendarDragType, item.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+    >
+      <span
+        className={c('calendar-lane-chip')}
+        style={{ backgroundColor: getLaneColor(laneIndex) }}
+      />
+      {time && <span className={c('calendar-card-time')}>{time.format(timeFormat)}</span>}
+      <span className={c('calendar-card-title')}>{getCalendarTitle(stateManager, entry)}</span>
+    </div>
+  );
+}
+
+export function CalendarView({
+  boardData,
+  stateManager,
+}: {
+  boardData: Board;
+  stateManager: StateManager;
+}) {
+  const { boardModifiers } = useContext(KanbanContext);
+  const search = useContext(SearchContext);
+  const mode: CalendarMode = stateManager.useSetting('calendar-mode') || 'month';
+  const timeFormat = stateManager.useSetting('time-format');
+  const [anchor, setAnchor] = useState(() => moment().startOf('day'));
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const entries = useMemo(
+    () =>
+      getCalendarEntries(boardData).filter(
+        (entry) => !search?.query || search.items.has(entry.item)
+      ),
+    [boardData, search]
+  );
+  const byDay = useMemo(() => getEntriesByDay(entries), [entries]);
+  const unscheduled = useMemo(() => entries.filter((entry) => !entry.date), [entries]);
+  const days = useMemo(() => getCalendarDays(anchor, mode), [anchor, mode]);
+  const today = moment();
+
+  const setMode = (value: CalendarMode) => {
+    stateManager.setState((board) =>
+      update(board, {
+        data: { settings: { 'calendar-mode': { $set: value } } },
+      })
+    );
+  };
+
+  // Dropping a card on a day sets its date, and dropping it on the sidebar removes it
+  const getDropHandlers = (key: string, date: moment.Moment | null) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!isCalendarDrag(e)) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(key);
+    },
+    onDrop: (e: DragEvent) => {
+      if (!isCalendarDrag(e)) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+
+      const id = e.dataTransfer.getData(calendarDragType);
+      const entry = entries.find((en) => en.item.id === id);
+      const isSameDay = date ? !!entry?.date?.isSame(date, 'day') : !entry?.date;
+
+      if (entry && !isSameDay) setCalendarDate(stateManager, boardModifiers, entry, date);
+    },
+  });
+
+  const title =
+    mode === 'month'
+      ? anchor.format('MMMM YYYY')
+      : `${days[0].format('ll')} – ${days[days.length - 1].format('ll')}`;
+
+  const renderCard = (entry: CalendarEntry) => (
+    <CalendarCard
+      key={entry.item.id}
+      entry={entry}
+      stateManager={stateManager}
+      timeFormat={timeFormat}
+    />
+  );
+
+  return (
+    <div
+      className={c('calendar')}
+      onDragOver={(e) => {
+        if (!isCalendarDrag(e)) return;
+        e.stopPropagation();
+        setDropTarget(null);
+      }}
+      onDrop={(e) => {
+        if (isCalendarDrag(e)) e.stopPropagation();
+      }}
+      onDragEnd={() => setDropTarget(null)}
+    >
+      <div className={c('calendar-toolbar')}>
+        <button
+          aria-label={t('Previous')}
+          onClick={() => setAnchor(anchor.clone().subtract(1, mode))}
+        >
+          <Icon name="lucide-chevron-left" />
+        </button>
+        <button onClick={() => setAnchor(moment().startOf('day'))}>{t('Today')}</button>
+        <button aria-label={t('Next')} onClick={() => setAnchor(anchor.clone().add(1, mode))}>
+          <Icon name="lucide-chevron-right" />
+        </button>
+        <span className={c('calendar-title')}>{title}</span>
+        <select
+          className="dropdown"
+          value={mode}
+          onChange={(e) => setMode((e.target as HTMLSelectElement).value as CalendarMode)}
+        >
+          <option value="month">{t('Month')}</option>
+          <option value="week">{t('Week')}</option>
+        </select>
+        <div className={c('calendar-legend')}>
+          {boardData.children.map((lane, i) => (
+            <span key={lane.id}>
+              <span
+                className={c('calendar-lane-chip')}
+                style={{ backgroundColor: getLaneColor(i) }}
+              />
+              {lane.data.title}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className={c('calendar-body')}>
+        <div className={classcat([c('calendar-grid'), c(`calendar-${mode}`)])}>
+          {days.slice(0, 7).map((day) => (
+            <div key={day.day()} className={c('calendar-weekday')}>
+              {day.format('ddd')}
+            </div>
+          ))}
+          {days.map((day) => {
+            const key = day.format(calendarDayFormat);
+
+            return (
+              <div
+                key={key}
+                className={classcat([
+                  c('calendar-day'),
+                  {
+                    'is-today': day.isSame(today, 'day'),
+                    'is-outside': mode === 'month' && !day.isSame(anchor, 'month'),
+                    'is-drop-target': dropTarget === key,
+                  },
+                ])}
+                {...getDropHandlers(key, day)}
+              >
+                <div className={c('calendar-day-number')}>{day.format('D')}</div>
+                {byDay.get(key)?.map(renderCard)}
+              </div>
+            );
+          })}
+        </div>
+        <div
+          className={classcat([
+            c('calendar-sidebar'),
+            { 'is-drop-target': dropTarget === unscheduledKey },
+          ])}
+          {...getDropHandlers(unscheduledKey, null)}
+        >
+          <div className={c('calendar-sidebar-title')}>
+            <span>{t('Unscheduled')}</span>
+            <span className={c('calendar-sidebar-count')}>{unscheduled.length}</span>
+          </div>
+          {unscheduled.map(renderCard)}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { moment } from 'obsidian';
+import { StateManager } from 'src/StateManager';
+import { Path } from 'src/dnd/types';
+import { BoardModifiers } from 'src/helpers/boardModifiers';
+import { setInlineField } from 'src/parsers/helpers/inlineMetadata';
+
+import { constructMenuDatePickerOnChange, setItemDate } from '../Item/helpers';
+import { getDate } from '../Item/MetadataTable';
+import { Board, Item, Lane } from '../types';
+
+export type CalendarMode = 'month' | 'week';
+
+// Where a card's calendar date comes from: the date trigger, or a Tasks due or scheduled date
+export type CalendarDateSource = 'date' | 'due' | 'scheduled';
+
+export interface CalendarEntry {
+  item: Item;
+  lane: Lane;
+  laneIndex: number;
+  path: Path;
+  date: moment.Moment | null;
+  source: CalendarDateSource | null;
+}
+
+export const calendarDayFormat = 'YYYY-MM-DD';
+
+const taskDateKeys: CalendarDateSource[] = ['due', 'scheduled'];
+
+function getCalendarDate(item: Item): Pick<CalendarEntry, 'date' | 'source'> {
+  const { date, inlineMetadata } = item.data.metadata;
+  if (date?.isValid()) return { date, source: 'date' };
+
+  for (const key of taskDateKeys) {
+    const field = inlineMetadata?.find((m) => m.key === key);
+    const fieldDate = field ? getDate(field.value) : null;
+
+    if (fieldDate?.isValid()) return { date: fieldDate, source: key };
+  }
+
+  return { date: null, source: null };
+}
+
+export function getCalendarEntries(board: Board): CalendarEntry[] {
+  const entries: CalendarEntry[] = [];
+
+  board.children.forEach((lane, laneIndex) => {
+    lane.children.forEach((item, itemIndex) => {
+      const path = [laneIndex, itemIndex];
+      entries.push({ item, lane, laneIndex, path, ...getCalendarDate(item) });
+    });
+  });
+
+  return entries;
+}
+
+// Cards are listed by time within a day, with untimed cards first
+function compareEntries(a: CalendarEntry, b: CalendarEntry) {
+  const timeA = a.item.data.metadata.time?.valueOf() ?? -1;
+  const timeB = b.item.data.metadata.time?.valueOf() ?? -1;
+
+  return timeA - timeB || a.path[0] - b.path[0] || a.path[1] - b.path[1];
+}
+
+export function getEntriesByDay(entries: CalendarEntry[]) {
+  const days = new Map<string, CalendarEntry[]>();
+
+  entries.forEach((entry) => {
+    if (!entry.date) return;
+
+    const key = entry.date.format(calendarDayFormat);
+    if (!days.has(key)) days.set(key, []);
+    days.get(key).push(entry);
+  });
+
+  days.forEach((dayEntries) => dayEntries.sort(compareEntries));
+  return days;
+}
+
+// The weeks shown for the month or week around the given day
+export function getCalendarDays(anchor: moment.Moment, mode: CalendarMode): moment.Moment[] {
+  const start = anchor.clone().startOf(mode).startOf('week');
+  const end = anchor.clone().endOf(mode).endOf('week');
+  const days: moment.Moment[] = [];
+
+  while (start.isSameOrBefore(end, 'day')) {
+    days.push(start.clone());
+    start.add(1, 'day');
+  }
+
+  return days;
+}
+
+// The card's text without its date, as shown on the calendar
+export function getCalendarTitle(stateManager: StateManager, entry: CalendarEntry) {
+  const { item, source } = entry;
+  let titleRaw = item.data.titleRaw;
+
+  if (source === 'date') titleRaw = setItemDate(stateManager, item, null);
+  else if (source) titleRaw = setInlineField(titleRaw, source, '');
+
+  return titleRaw.split('\n')[0].trim();
+}
+
+// Dates from the date trigger are changed the same way as from the card's date picker. Tasks
+// dates are rewritten where they are. Clearing the date leaves the card unscheduled.
+export function setCalendarDate(
+  stateManager: StateManager,
+  boardModifiers: BoardModifiers,
+  entry: CalendarEntry,
+  date: moment.Moment | null
+) {
+  const { item, path, source } = entry;
+
+  if (source === 'due' || source === 'scheduled') {
+    const value = date ? date.format(calendarDayFormat) : '';
+    const titleRaw = setInlineField(item.data.titleRaw, source, value);
+
+    boardModifiers.updateItem(path, stateManager.updateItemContent(item, titleRaw));
+    return;
+  }
+
+  if (!date && !source) return;
+
+  constructMenuDatePickerOnChange({ stateManager, boardModifiers, item, path })(
+    date ? [date.toDate()] : []
+  );
+}
@@ -0,0 +1,67 @@
+import { App, ButtonComponent, Modal } from 'obsidian';
+import { t } from 'src/lang/helpers';
+
+import { c } from './helpers';
+
+// Resolves to true only when the user explicitly confirms
+export function confirmAction(
+  app: App,
+  description: string,
+  confirmText: string,
+  details: string[] = []
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    new ConfirmModal(app, description, confirmText, details, resolve).open();
+  });
+}
+
+export class ConfirmModal extends Modal {
+  description: string;
+  confirmText: string;
+  details: string[];
+  onResolve: (confirmed: boolean) => void;
+  confirmed: boolean = false;
+
+  constructor(
+    app: App,
+    description: string,
+    confirmText: string,
+    details: string[],
+    onResolve: (confirmed: boolean) => void
+  ) {
+    super(app);
+    this.description = description;
+    this.confirmText = confirmText;
+    this.details = details;
+    this.onResolve = onResolve;
+  }
+
+  onOpen() {
+    const { contentEl, modalEl } = this;
+
+    modalEl.addClass(c('confirm-modal'));
+    contentEl.createEl('p', { text: this.description });
+
+    if (this.details.length) {
+      const list = contentEl.createEl('ul', { cls: c('confirm-modal-details') });
+      this.details.forEach((detail) => list.createEl('li', { text: detail }));
+    }
+
+    const buttons = contentEl.createDiv({ cls: 'modal-button-container' });
+
+    new ButtonComponent(buttons)
+      .setButtonText(this.confirmText)
+      .setWarning()
+      .onClick(() => {
+        this.confirmed = true;
+        this.close();
+      });
+
+    new ButtonComponent(buttons).setButtonText(t('Cancel')).onClick(() => this.close());
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.onResolve(this.confirmed);
+  }
+}
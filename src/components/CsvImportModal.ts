@@ -0,0 +1,129 @@
+import { App, ButtonComponent, FuzzySuggestModal, Modal, Setting, TFile } from 'obsidian';
+import { StateManager } from 'src/StateManager';
+import { BoardModifiers } from 'src/helpers/boardModifiers';
+import {
+  CsvColumnTarget,
+  getCsvCards,
+  getCsvDelimiter,
+  guessCsvColumnTarget,
+  importCsvCards,
+  parseCsv,
+} from 'src/helpers/csv';
+import { t } from 'src/lang/helpers';
+
+import { c } from './helpers';
+
+// Lists the vault's CSV and TSV files, and opens the import wizard for the chosen one
+export class CsvFileModal extends FuzzySuggestModal<TFile> {
+  stateManager: StateManager;
+  boardModifiers: BoardModifiers;
+
+  constructor(app: App, stateManager: StateManager, boardModifiers: BoardModifiers) {
+    super(app);
+    this.stateManager = stateManager;
+    this.boardModifiers = boardModifiers;
+    this.setPlaceholder(t('Choose a CSV or TSV file to import'));
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault
+      .getFiles()
+      .filter((file) => file.extension === 'csv' || file.extension === 'tsv');
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  async onChooseItem(file: TFile) {
+    const rows = parseCsv(await this.app.vault.cachedRead(file), getCsvDelimiter(file));
+    new CsvImportModal(this.app, this.stateManager, this.boardModifiers, rows).open();
+  }
+}
+
+// Maps each column of the file to a card's list, title, date, tags or an inline field. The first
+// row is read as the header.
+export class CsvImportModal extends Modal {
+  stateManager: StateManager;
+  boardModifiers: BoardModifiers;
+  header: string[];
+  rows: string[][];
+  targets: CsvColumnTarget[];
+  defaultLane: string;
+
+  constructor(
+    app: App,
+    stateManager: StateManager,
+    boardModifiers: BoardModifiers,
+    rows: string[][]
+  ) {
+    super(app);
+    this.stateManager = stateManager;
+    this.boardModifiers = boardModifiers;
+    this.header = rows[0] || [];
+    this.rows = rows.slice(1);
+    this.targets = this.header.map(guessCsvColumnTarget);
+    this.defaultLane =
+      stateManager.state.children.find((lane) => !lane.data.query)?.data.title || t('Imported');
+  }
+
+  onOpen() {
+    const { contentEl, modalEl } = this;
+
+    modalEl.addClass(c('csv-import-modal'));
+    this.titleEl.setText(t('Import cards from CSV'));
+    contentEl.createEl('p', {
+      text: `${t('Cards found')}: ${this.rows.length}`,
+      cls: c('csv-import-count'),
+    });
+
+    this.header.forEach((name, i) => {
+      const sample = this.rows.find((row) => row[i]?.trim())?.[i] ?? '';
+
+      new Setting(contentEl)
+        .setName(name || `${t('Column')} ${i + 1}`)
+        .setDesc(sample.length > 60 ? `${sample.slice(0, 60)}…` : sample)
+        .addDropdown((dropdown) => {
+          dropdown
+            .addOption('', t('Ignore'))
+            .addOption('lane', t('List'))
+            .addOption('title', t('Card'))
+            .addOption('date', t('Date'))
+            .addOption('tags', t('Tags'))
+            .addOption('field', t('Inline field'))
+            .setValue(this.targets[i])
+            .onChange((value) => {
+              this.targets[i] = value as CsvColumnTarget;
+            });
+        });
+    });
+
+    new Setting(contentEl)
+      .setName(t('Default list'))
+      .setDesc(t('Cards without a list are added to this one.'))
+      .addText((text) => {
+        text.setValue(this.defaultLane).onChange((value) => {
+          this.defaultLane = value.trim() || t('Imported');
+        });
+      });
+
+    const buttons = contentEl.createDiv({ cls: 'modal-button-container' });
+
+    new ButtonComponent(buttons)
+      .setButtonText(t('Import'))
+      .setCta()
+      .onClick(() => {
+        const { stateManager, boardModifiers, header, rows, targets } = this;
+        const cards = getCsvCards(stateManager, header, rows, targets);
+
+        importCsvCards(stateManager, boardModifiers, cards, this.defaultLane);
+        this.close();
+      });
+
+    new ButtonComponent(buttons).setButtonText(t('Cancel')).onClick(() => this.close());
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
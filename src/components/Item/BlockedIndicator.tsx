@@ -0,0 +1,29 @@
+import Preact from 'preact/compat';
+import { t } from 'src/lang/helpers';
+
+import { Icon } from '../Icon/Icon';
+import { DependencyContext } from '../context';
+import { c, getItemTitle, getOpenBlockers } from '../helpers';
+import { Item } from '../types';
+
+interface BlockedIndicatorProps {
+  item: Item;
+}
+
+export const BlockedIndicator = Preact.memo(function BlockedIndicator({
+  item,
+}: BlockedIndicatorProps) {
+  const dependencies = Preact.useContext(DependencyContext);
+  const blockers = getOpenBlockers(dependencies?.get(item));
+
+  if (!blockers.length) return null;
+
+  return (
+    <span
+      className={c('item-blocked-indicator')}
+      aria-label={`${t('Blocked by')}: ${blockers.map(getItemTitle).join(', ')}`}
+    >
+      <Icon name="lucide-lock" />
+    </span>
+  );
+});
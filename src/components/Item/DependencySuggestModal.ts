@@ -0,0 +1,28 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+
+import { getItemTitle } from '../helpers';
+import { Item } from '../types';
+
+export class DependencySuggestModal extends FuzzySuggestModal<Item> {
+  items: Item[];
+  onChoose: (item: Item) => void;
+
+  constructor(app: App, items: Item[], placeholder: string, onChoose: (item: Item) => void) {
+    super(app);
+    this.items = items;
+    this.onChoose = onChoose;
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): Item[] {
+    return this.items;
+  }
+
+  getItemText(item: Item): string {
+    return getItemTitle(item);
+  }
+
+  onChooseItem(item: Item) {
+    this.onChoose(item);
+  }
+}
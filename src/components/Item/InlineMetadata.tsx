@@ -8,7 +8,7 @@ import {
   taskFields,
 } from 'src/parsers/helpers/inlineMetadata';
 
-import { SearchContext } from '../context';
+import { KanbanContext, SearchContext } from '../context';
 import { c, parseMetadataWithOptions } from '../helpers';
 import { Item } from '../types';
 import { MetadataValue } from './MetadataTable';
@@ -20,6 +20,8 @@ interface InlineMetadataProps {
 
 export function InlineMetadata({ item, stateManager }: InlineMetadataProps) {
   const search = useContext(SearchContext);
+  const { view } = useContext(KanbanContext);
+  const hiddenMetadata = view.useViewState('hidden-metadata');
   const metaKeys = stateManager.getSetting('metadata-keys');
   const showInlineMetadata = stateManager.useSetting('inline-metadata-position') === 'footer';
   const showTaskMetadata = stateManager.useSetting('move-task-metadata');
@@ -38,6 +40,7 @@ export function InlineMetadata({ item, stateManager }: InlineMetadataProps) {
 
         if (!showTaskMetadata && isTaskMetadata) return null;
         if (!showInlineMetadata && !isTaskMetadata) return null;
+        if (hiddenMetadata?.includes(key)) return null;
 
         const isEmoji = m.wrapping === 'emoji-shorthand';
         const val = dataview?.api?.parse(value) ?? value;
@@ -72,7 +75,7 @@ export function InlineMetadata({ item, stateManager }: InlineMetadataProps) {
             {!isEmojiPriority && (
               <span className={c('item-task-inline-metadata-item-value')}>
                 <MetadataValue
-                  searchQuery={search?.query}
+                  searchQuery={search?.highlight}
                   dateLabel={isDate ? label : undefined}
                   data={data}
                 />
@@ -14,14 +14,31 @@ import { DndManagerContext } from 'src/dnd/components/context';
 import { useDragHandle } from 'src/dnd/managers/DragManager';
 import { frontmatterKey } from 'src/parsers/common';
 
-import { KanbanContext, SearchContext } from '../context';
-import { c } from '../helpers';
+import {
+  DependencyContext,
+  KanbanContext,
+  SearchContext,
+  SelectionContext,
+  SubtaskContext,
+} from '../context';
+import {
+  c,
+  canSelectItem,
+  getItemLaneEntered,
+  getItemRef,
+  getLaneAncestors,
+  getOpenBlockers,
+  useGetAgeColorFn,
+} from '../helpers';
 import { EditState, EditingState, Item, isEditing } from '../types';
+import { BlockedIndicator } from './BlockedIndicator';
 import { ItemCheckbox } from './ItemCheckbox';
 import { ItemContent } from './ItemContent';
 import { useItemMenu } from './ItemMenu';
 import { ItemMenuButton } from './ItemMenuButton';
 import { ItemMetadata } from './MetadataTable';
+import { useSelectionMenu } from './SelectionMenu';
+import { SubtaskProgress } from './SubtaskProgress';
 import { getItemClassModifiers } from './helpers';
 
 export interface DraggableItemProps {
@@ -29,6 +46,7 @@ export interface DraggableItemProps {
   itemIndex: number;
   isStatic?: boolean;
   shouldMarkItemsComplete?: boolean;
+  subtaskDepth?: number;
 }
 
 export interface ItemInnerProps {
@@ -47,8 +65,16 @@ const ItemInner = memo(function ItemInner({
   isStatic,
 }: ItemInnerProps) {
   const { stateManager, boardModifiers } = useContext(KanbanContext);
+  const selection = useContext(SelectionContext);
   const [editState, setEditState] = useState<EditState>(EditingState.cancel);
 
+  const shouldTrackLaneAge = stateManager.useSetting('track-lane-age');
+  const getAgeColor = useGetAgeColorFn(stateManager);
+  const ageColor = useMemo(() => {
+    const entered = shouldTrackLaneAge ? getItemLaneEntered(item) : null;
+    return entered ? getAgeColor(entered) : null;
+  }, [item, shouldTrackLaneAge, getAgeColor]);
+
   const dndManager = useContext(DndManagerContext);
 
   useEffect(() => {
@@ -77,6 +103,7 @@ const ItemInner = memo(function ItemInner({
     stateManager,
     path,
   });
+  const showSelectionMenu = useSelectionMenu();
 
   const onContextMenu: JSX.MouseEventHandler<HTMLDivElement> = useCallback(
     (e) => {
@@ -87,9 +114,10 @@ const ItemInner = memo(function ItemInner({
       ) {
         return;
       }
+      if (showSelectionMenu(e, item)) return;
       showItemMenu(e);
     },
-    [showItemMenu, editState]
+    [showItemMenu, showSelectionMenu, item, editState]
   );
 
   const onDoubleClick: JSX.MouseEventHandler<HTMLDivElement> = useCallback(
@@ -108,13 +136,21 @@ const ItemInner = memo(function ItemInner({
       ) {
         return;
       }
-      
+
+      // Shift-click selects a range of cards and ctrl/cmd-click adds or removes a single card
+      if (selection && canSelectItem(item) && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+        selection.select(item, e.shiftKey ? 'range' : 'toggle');
+        return;
+      }
+
+      selection?.clear();
+
       const file = item.data.metadata.file;
       if (file) {
-        stateManager.app.workspace.openLinkText(file.path, stateManager.file.path, e.ctrlKey || e.metaKey);
+        stateManager.app.workspace.openLinkText(file.path, stateManager.file.path, false);
       }
     },
-    [item, stateManager, editState]
+    [item, stateManager, selection, editState]
   );
 
   const ignoreAttr = useMemo(() => {
@@ -133,7 +169,13 @@ const ItemInner = memo(function ItemInner({
       onClick={onClick}
       onDblClick={onDoubleClick}
       onContextMenu={onContextMenu}
-      className={c('item-content-wrapper')}
+      style={
+        ageColor && {
+          '--age-color': ageColor.color,
+          '--age-background-color': ageColor.backgroundColor,
+        }
+      }
+      className={classcat([c('item-content-wrapper'), { 'has-age-color': !!ageColor }])}
       {...ignoreAttr}
     >
       <div className={c('item-title-wrapper')} {...ignoreAttr}>
@@ -151,6 +193,8 @@ const ItemInner = memo(function ItemInner({
           editState={editState}
           isStatic={isStatic}
         />
+        <BlockedIndicator item={item} />
+        <SubtaskProgress item={item} />
         <ItemMenuButton editState={editState} setEditState={setEditState} showMenu={showItemMenu} />
       </div>
       <ItemMetadata searchQuery={isMatch ? searchQuery : undefined} item={item} />
@@ -162,28 +206,39 @@ export const DraggableItem = memo(function DraggableItem(props: DraggableItemPro
   const elementRef = useRef<HTMLDivElement>(null);
   const measureRef = useRef<HTMLDivElement>(null);
   const search = useContext(SearchContext);
+  const selection = useContext(SelectionContext);
+  const dependencies = useContext(DependencyContext);
 
-  const { itemIndex, ...innerProps } = props;
+  const { itemIndex, subtaskDepth, ...innerProps } = props;
 
   const bindHandle = useDragHandle(measureRef, measureRef);
 
-  const isMatch = search?.query ? innerProps.item.data.titleSearch.includes(search.query) : false;
+  const isMatch = search?.query ? search.items.has(innerProps.item) : false;
   const classModifiers: string[] = getItemClassModifiers(innerProps.item);
 
+  if (getOpenBlockers(dependencies?.get(innerProps.item)).length) {
+    classModifiers.push('is-blocked');
+  }
+
+  if (selection?.selected.has(innerProps.item.id)) {
+    classModifiers.push('is-selected');
+  }
+
   return (
     <div
       ref={(el) => {
         measureRef.current = el;
         bindHandle(el);
       }}
-      className={c('item-wrapper')}
+      className={classcat([c('item-wrapper'), { 'is-subtask': subtaskDepth > 0 }])}
+      style={subtaskDepth > 0 ? `--subtask-depth: ${subtaskDepth}` : undefined}
     >
       <div ref={elementRef} className={classcat([c('item'), ...classModifiers])}>
         {props.isStatic ? (
           <ItemInner
             {...innerProps}
             isMatch={isMatch}
-            searchQuery={search?.query}
+            searchQuery={search?.highlight}
             isStatic={true}
           />
         ) : (
@@ -194,7 +249,7 @@ export const DraggableItem = memo(function DraggableItem(props: DraggableItemPro
             index={itemIndex}
             data={props.item}
           >
-            <ItemInner {...innerProps} isMatch={isMatch} searchQuery={search?.query} />
+            <ItemInner {...innerProps} isMatch={isMatch} searchQuery={search?.highlight} />
           </Droppable>
         )}
       </div>
@@ -206,23 +261,45 @@ interface ItemsProps {
   isStatic?: boolean;
   items: Item[];
   shouldMarkItemsComplete: boolean;
+  swimlane?: string | null;
 }
 
-export const Items = memo(function Items({ isStatic, items, shouldMarkItemsComplete }: ItemsProps) {
+export const Items = memo(function Items({
+  isStatic,
+  items,
+  shouldMarkItemsComplete,
+  swimlane,
+}: ItemsProps) {
   const search = useContext(SearchContext);
+  const subtasks = useContext(SubtaskContext);
   const { view } = useContext(KanbanContext);
   const boardView = view.useViewState(frontmatterKey);
 
+  // Subtasks are nested under parents in the same lane, and hidden while a parent is collapsed
+  const ancestors = useMemo(() => getLaneAncestors(items), [items]);
+
   return (
     <>
       {items.map((item, i) => {
-        return search?.query && !search.items.has(item) ? null : (
+        const isCollapsed = ancestors[i].some((parent) =>
+          subtasks?.collapsed.has(getItemRef(parent))
+        );
+
+        // In a swimlane row, only that row's cards are shown, keeping their lane index
+        const isInOtherSwimlane =
+          swimlane !== undefined && (item.data.metadata.swimlane || null) !== swimlane;
+
+        const isHidden =
+          (search?.query && !search.items.has(item)) || isCollapsed || isInOtherSwimlane;
+
+        return isHidden ? null : (
           <DraggableItem
             key={boardView + item.id}
             item={item}
             itemIndex={i}
             shouldMarkItemsComplete={shouldMarkItemsComplete}
             isStatic={isStatic}
+            subtaskDepth={ancestors[i].length}
           />
         );
       })}
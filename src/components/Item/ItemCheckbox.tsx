@@ -1,13 +1,12 @@
-import update from 'immutability-helper';
 import { memo, useCallback, useEffect, useState } from 'preact/compat';
 import { StateManager } from 'src/StateManager';
 import { Path } from 'src/dnd/types';
-import { getTaskStatusDone, toggleTask } from 'src/parsers/helpers/inlineMetadata';
 
 import { BoardModifiers } from '../../helpers/boardModifiers';
 import { Icon } from '../Icon/Icon';
 import { c } from '../helpers';
 import { Item } from '../types';
+import { getToggledItems } from './helpers';
 
 interface ItemCheckboxProps {
   path: Path;
@@ -29,31 +28,18 @@ export const ItemCheckbox = memo(function ItemCheckbox({
   const [isCtrlHoveringCheckbox, setIsCtrlHoveringCheckbox] = useState(false);
   const [isHoveringCheckbox, setIsHoveringCheckbox] = useState(false);
 
+  // Cards from query lists live in other files, so they can be completed but not archived
+  const isQueryItem = !!item.data.metadata.querySource;
+
   const onCheckboxChange = useCallback(() => {
-    const updates = toggleTask(item, stateManager.file);
-    if (updates) {
-      const [itemStrings, checkChars, thisIndex] = updates;
-      const replacements: Item[] = itemStrings.map((str, i) => {
-        const next = stateManager.getNewItem(str, checkChars[i]);
-        if (i === thisIndex) next.id = item.id;
-        return next;
-      });
-
-      boardModifiers.replaceItem(path, replacements);
+    const items = getToggledItems(stateManager, item);
+
+    if (items[0] === item) return;
+
+    if (items.length === 1) {
+      boardModifiers.updateItem(path, items[0]);
     } else {
-      boardModifiers.updateItem(
-        path,
-        update(item, {
-          data: {
-            checkChar: {
-              $apply: (v) => {
-                return v === ' ' ? getTaskStatusDone() : ' ';
-              },
-            },
-            $toggle: ['checked'],
-          },
-        })
-      );
+      boardModifiers.replaceItem(path, items);
     }
   }, [item, stateManager, boardModifiers, ...path]);
 
@@ -81,6 +67,9 @@ export const ItemCheckbox = memo(function ItemCheckbox({
     return null;
   }
 
+  const shouldShowArchive =
+    !isQueryItem && (isCtrlHoveringCheckbox || (!shouldShowCheckbox && shouldMarkItemsComplete));
+
   return (
     <div
       onMouseEnter={(e) => {
@@ -99,7 +88,7 @@ export const ItemCheckbox = memo(function ItemCheckbox({
       }}
       className={c('item-prefix-button-wrapper')}
     >
-      {shouldShowCheckbox && !isCtrlHoveringCheckbox && (
+      {shouldShowCheckbox && (!isCtrlHoveringCheckbox || isQueryItem) && (
         <input
           onChange={onCheckboxChange}
           type="checkbox"
@@ -108,7 +97,7 @@ export const ItemCheckbox = memo(function ItemCheckbox({
           data-task={item.data.checkChar}
         />
       )}
-      {(isCtrlHoveringCheckbox || (!shouldShowCheckbox && shouldMarkItemsComplete)) && (
+      {shouldShowArchive && (
         <a
           onClick={() => {
             boardModifiers.archiveItem(path);
@@ -24,6 +24,7 @@ import { c, useGetDateColorFn, useGetTagColorFn } from '../helpers';
 import { EditState, EditingState, Item, isEditing } from '../types';
 import { DateAndTime, RelativeDate } from './DateAndTime';
 import { InlineMetadata } from './InlineMetadata';
+import { LaneAge } from './LaneAge';
 import {
   constructDatePicker,
   constructMenuDatePickerOnChange,
@@ -45,7 +46,6 @@ export function useDatePickers(item: Item, explicitPath?: Path) {
           stateManager,
           boardModifiers,
           item,
-          hasDate: true,
           path,
         }),
         item.data.metadata.date?.toDate()
@@ -152,7 +152,7 @@ export function Tags({
 
               const tagAction = stateManager.getSetting('tag-action');
               if (search && tagAction === 'kanban') {
-                search.search(tag, true);
+                search.search(`tag:${tag}`, true);
                 return;
               }
 
@@ -296,6 +296,7 @@ export const ItemContent = memo(function ItemContent({
       {showMetadata && (
         <div className={c('item-metadata')}>
           <RelativeDate item={item} stateManager={stateManager} />
+          <LaneAge item={item} stateManager={stateManager} />
           <DateAndTime
             item={item}
             stateManager={stateManager}
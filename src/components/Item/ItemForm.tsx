@@ -14,9 +14,17 @@ interface ItemFormProps {
   editState: EditState;
   setEditState: Dispatch<StateUpdater<EditState>>;
   hideButton?: boolean;
+  // Set when the lane's WIP limit doesn't allow new cards
+  isDisabled?: boolean;
 }
 
-export function ItemForm({ addItems, editState, setEditState, hideButton }: ItemFormProps) {
+export function ItemForm({
+  addItems,
+  editState,
+  setEditState,
+  hideButton,
+  isDisabled,
+}: ItemFormProps) {
   const { stateManager } = useContext(KanbanContext);
   const editorRef = useRef<EditorView>();
 
@@ -70,9 +78,11 @@ export function ItemForm({ addItems, editState, setEditState, hideButton }: Item
     <div className={c('item-button-wrapper')}>
       <button
         className={c('new-item-button')}
+        disabled={isDisabled}
+        aria-label={isDisabled ? t('This list is at its WIP limit') : undefined}
         onClick={() => setEditState({ x: 0, y: 0 })}
         onDragOver={(e) => {
-          if (getDropAction(stateManager, e.dataTransfer)) {
+          if (!isDisabled && getDropAction(stateManager, e.dataTransfer)) {
             setEditState({ x: 0, y: 0 });
           }
         }}
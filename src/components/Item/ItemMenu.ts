@@ -6,14 +6,26 @@ import { Path } from 'src/dnd/types';
 import { moveEntity } from 'src/dnd/util/data';
 import { t } from 'src/lang/helpers';
 
-import { BoardModifiers } from '../../helpers/boardModifiers';
-import { applyTemplate, escapeRegExpStr, generateInstanceId } from '../helpers';
+import { BoardModifiers, stampLaneEntry } from '../../helpers/boardModifiers';
+import { openQuerySource } from '../../helpers/queryLanes';
+import { checkWipLimits } from '../Lane/helpers';
+import {
+  applyTemplate,
+  canCompleteItem,
+  escapeRegExpStr,
+  generateInstanceId,
+  getBoardDependencies,
+  getItemTitle,
+  getOpenBlockers,
+} from '../helpers';
 import { EditState, Item } from '../types';
+import { DependencySuggestModal } from './DependencySuggestModal';
 import {
   constructDatePicker,
   constructMenuDatePickerOnChange,
   constructMenuTimePickerOnChange,
   constructTimePicker,
+  setItemDate,
 } from './helpers';
 
 const illegalCharsRegEx = /[\\/:"*?<>|]+/g;
@@ -50,6 +62,17 @@ export function useItemMenu({
           .onClick(() => setEditState(coordinates));
       });
 
+      // Cards from query lists are edited in place and otherwise belong to their source file
+      if (item.data.metadata.querySource) {
+        menu.addItem((i) => {
+          i.setIcon('lucide-file-search')
+            .setTitle(t('Open source file'))
+            .onClick(() => openQuerySource(stateManager, item));
+        });
+        menu.showAtPosition(coordinates);
+        return;
+      }
+
       menu
         .addItem((i) => {
           i.setIcon('lucide-file-plus-2')
@@ -165,6 +188,21 @@ export function useItemMenu({
               boardModifiers.insertItems(newPath, [stateManager.getNewItem('', ' ', true)]);
             });
         })
+        .addItem((i) => {
+          i.setIcon('lucide-list-plus')
+            .setTitle(t('Add subtask'))
+            .onClick(() => boardModifiers.addSubtask(path));
+        });
+
+      if (item.data.parent_id) {
+        menu.addItem((i) => {
+          i.setIcon('lucide-unlink')
+            .setTitle(t('Remove from parent card'))
+            .onClick(() => boardModifiers.setItemParent(path, null));
+        });
+      }
+
+      menu
         .addItem((i) => {
           i.setIcon('lucide-arrow-up')
             .setTitle(t('Move to top'))
@@ -198,7 +236,6 @@ export function useItemMenu({
                   stateManager,
                   boardModifiers,
                   item,
-                  hasDate,
                   path,
                 }),
                 item.data.metadata.date?.toDate()
@@ -211,17 +248,7 @@ export function useItemMenu({
           i.setIcon('lucide-x')
             .setTitle(t('Remove date'))
             .onClick(() => {
-              const shouldLinkDates = stateManager.getSetting('link-date-to-daily-note');
-              const dateTrigger = stateManager.getSetting('date-trigger');
-              const contentMatch = shouldLinkDates
-                ? '(?:\\[[^\\]]+\\]\\([^\\)]+\\)|\\[\\[[^\\]]+\\]\\])'
-                : '{[^}]+}';
-              const dateRegEx = new RegExp(
-                `(^|\\s)${escapeRegExpStr(dateTrigger as string)}${contentMatch}`
-              );
-
-              const titleRaw = item.data.titleRaw.replace(dateRegEx, '').trim();
-
+              const titleRaw = setItemDate(stateManager, item, null);
               boardModifiers.updateItem(path, stateManager.updateItemContent(item, titleRaw));
             });
         });
@@ -265,19 +292,80 @@ export function useItemMenu({
 
       menu.addSeparator();
 
+      const dependencies = getBoardDependencies(stateManager.state).get(item);
+      const blockers = getOpenBlockers(dependencies);
+
+      blockers.forEach((blocker) => {
+        menu.addItem((i) => {
+          i.setIcon('lucide-lock')
+            .setTitle(`${t('Blocked by')}: ${getItemTitle(blocker)}`)
+            .setDisabled(true);
+        });
+      });
+
+      dependencies?.blocking.forEach((blocked) => {
+        menu.addItem((i) => {
+          i.setIcon('lucide-git-branch')
+            .setTitle(`${t('Blocking')}: ${getItemTitle(blocked)}`)
+            .setDisabled(true);
+        });
+      });
+
+      menu.addItem((i) => {
+        i.setIcon('lucide-link-2')
+          .setTitle(t('Add dependency'))
+          .onClick(() => {
+            const candidates = stateManager.state.children.reduce<Item[]>(
+              (items, lane) => items.concat(lane.children.filter((other) => other !== item)),
+              []
+            );
+
+            new DependencySuggestModal(
+              stateManager.app,
+              candidates,
+              t('Choose a card this card depends on'),
+              (dependency) => boardModifiers.addDependency(path, dependency)
+            ).open();
+          });
+      });
+
+      if (dependencies?.blockedBy.length) {
+        menu.addItem((i) => {
+          i.setIcon('lucide-unlink-2')
+            .setTitle(t('Remove dependency'))
+            .onClick(() => {
+              new DependencySuggestModal(
+                stateManager.app,
+                dependencies.blockedBy,
+                t('Choose a dependency to remove'),
+                (dependency) => boardModifiers.removeDependency(path, dependency)
+              ).open();
+            });
+        });
+      }
+
+      menu.addSeparator();
+
       const addMoveToOptions = (menu: Menu) => {
         const lanes = stateManager.state.children;
         if (lanes.length <= 1) return;
         for (let i = 0, len = lanes.length; i < len; i++) {
-          menu.addItem((item) =>
-            item
+          if (lanes[i].data.query) continue;
+          menu.addItem((menuItem) =>
+            menuItem
               .setIcon('lucide-square-kanban')
               .setChecked(path[0] === i)
               .setTitle(lanes[i].data.title)
-              .onClick(() => {
+              .onClick(async () => {
                 if (path[0] === i) return;
+                if (lanes[i].data.shouldMarkItemsComplete && !canCompleteItem(stateManager, item)) {
+                  return;
+                }
+                if (!(await checkWipLimits(stateManager, lanes[i], [item]))) return;
                 stateManager.setState((boardData) => {
-                  return moveEntity(boardData, path, [i, 0]);
+                  return moveEntity(boardData, path, [i, 0], (entity) =>
+                    stampLaneEntry(stateManager, entity as Item, boardData.children[i])
+                  );
                 });
               })
           );
@@ -0,0 +1,23 @@
+import { StateManager } from 'src/StateManager';
+import { t } from 'src/lang/helpers';
+
+import { c, getItemLaneEntered } from '../helpers';
+import { Item } from '../types';
+
+interface LaneAgeProps {
+  item: Item;
+  stateManager: StateManager;
+}
+
+export function LaneAge({ item, stateManager }: LaneAgeProps) {
+  const shouldTrackLaneAge = stateManager.useSetting('track-lane-age');
+  const entered = shouldTrackLaneAge ? getItemLaneEntered(item) : null;
+
+  if (!entered) return null;
+
+  return (
+    <span className={c('item-lane-age')} aria-label={entered.format('LLLL')}>
+      {`${t('In list for')} ${entered.fromNow(true)}`}
+    </span>
+  );
+}
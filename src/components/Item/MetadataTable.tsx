@@ -35,7 +35,8 @@ function mergeMetadata(
 }
 
 export function ItemMetadata({ item, searchQuery }: ItemMetadataProps) {
-  const { stateManager } = useContext(KanbanContext);
+  const { stateManager, view } = useContext(KanbanContext);
+  const hiddenMetadata = view.useViewState('hidden-metadata');
   const mergeInlineMetadata =
     stateManager.useSetting('inline-metadata-position') === 'metadata-table';
   const metadataKeys = stateManager.useSetting('metadata-keys');
@@ -47,10 +48,16 @@ export function ItemMetadata({ item, searchQuery }: ItemMetadataProps) {
       : fileMetadata;
 
     if (!metadata) return null;
-    if (!Object.keys(metadata).length) return null;
 
-    return metadata;
-  }, [fileMetadata, inlineMetadata, metadataKeys]);
+    const visible = Object.keys(metadata).reduce<FileMetadata>((acc, k) => {
+      if (!hiddenMetadata?.includes(k)) acc[k] = metadata[k];
+      return acc;
+    }, {});
+
+    if (!Object.keys(visible).length) return null;
+
+    return visible;
+  }, [fileMetadata, inlineMetadata, metadataKeys, hiddenMetadata]);
 
   const order = useMemo(() => {
     const metadataOrder = new Set(fileMetadataOrder || []);
@@ -114,7 +121,7 @@ export function getLinkFromObj(v: any, view: KanbanView) {
   return `${v.embed ? '!' : ''}[[${v.path}${v.display ? `|${v.display}` : ''}]]`;
 }
 
-function getDate(v: any) {
+export function getDate(v: any) {
   if (typeof v === 'string' && /^\d{4}-\d{2}-\d{2}/.test(v)) {
     const d = moment(v);
     if (d.isValid()) {
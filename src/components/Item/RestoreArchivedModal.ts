@@ -0,0 +1,45 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { StateManager } from 'src/StateManager';
+import { t } from 'src/lang/helpers';
+import { FolderFormat } from 'src/parsers/FolderFormat';
+
+import { getArchiveDate } from '../Report/helpers';
+import { Item } from '../types';
+
+export class RestoreArchivedModal extends FuzzySuggestModal<Item> {
+  stateManager: StateManager;
+
+  constructor(app: App, stateManager: StateManager) {
+    super(app);
+    this.stateManager = stateManager;
+    this.setPlaceholder(t('Choose an archived card to restore'));
+  }
+
+  // Most recently archived first. Cards without an archive date follow in archive order, which
+  // is oldest first on folder boards and newest first on list boards.
+  getItems(): Item[] {
+    const { stateManager } = this;
+    const archive = stateManager.state.data.archive || [];
+    const byPosition =
+      stateManager.parser instanceof FolderFormat ? [...archive].reverse() : archive;
+
+    const dated = byPosition
+      .map((item) => ({ item, date: getArchiveDate(stateManager, item) }))
+      .filter(({ date }) => date)
+      .sort((a, b) => b.date.valueOf() - a.date.valueOf())
+      .map(({ item }) => item);
+
+    return dated.concat(byPosition.filter((item) => !dated.includes(item)));
+  }
+
+  getItemText(item: Item): string {
+    const title = item.data.titleRaw.split('\n')[0];
+    const lane = item.data.metadata.archived_from;
+
+    return lane ? `${title} (${lane})` : title;
+  }
+
+  onChooseItem(item: Item) {
+    this.stateManager.restoreArchivedItem(item);
+  }
+}
@@ -0,0 +1,210 @@
+import { Menu, Platform } from 'obsidian';
+import { useCallback, useContext } from 'preact/hooks';
+import { StateManager } from 'src/StateManager';
+import { getEntityFromPath } from 'src/dnd/util/data';
+import { t } from 'src/lang/helpers';
+
+import { BoardModifiers } from '../../helpers/boardModifiers';
+import { confirmAction } from '../ConfirmModal';
+import { checkWipLimits } from '../Lane/helpers';
+import { promptText } from '../PromptModal';
+import { KanbanContext, SelectionContext, SelectionContextProps } from '../context';
+import { canCompleteItem, escapeRegExpStr, getSelectedPaths } from '../helpers';
+import { Item } from '../types';
+import { constructDatePicker, getToggledItems, setItemDate } from './helpers';
+
+const tagSeparatorRegEx = /\s+/g;
+
+function addTag(stateManager: StateManager, item: Item, tag: string) {
+  if (item.data.metadata.tags?.includes(tag)) return item;
+  return stateManager.updateItemContent(item, `${item.data.titleRaw} ${tag}`);
+}
+
+function removeTag(stateManager: StateManager, item: Item, tag: string) {
+  if (!item.data.metadata.tags?.includes(tag)) return item;
+
+  const tagRegEx = new RegExp(`(^|\\s)${escapeRegExpStr(tag)}(?![^\\s])`, 'g');
+  return stateManager.updateItemContent(item, item.data.titleRaw.replace(tagRegEx, '').trim());
+}
+
+// Actions that apply to every selected card at once
+export function showSelectionMenu(
+  e: MouseEvent,
+  stateManager: StateManager,
+  boardModifiers: BoardModifiers,
+  selection: SelectionContextProps
+) {
+  const board = stateManager.state;
+  const paths = getSelectedPaths(board, selection.selected);
+  const items = paths.map((path) => getEntityFromPath(board, path) as Item);
+  const coordinates = { x: e.clientX, y: e.clientY };
+
+  if (!items.length) return;
+
+  const shouldComplete = items.some((item) => !item.data.checked);
+  const hasDate = items.some((item) => !!item.data.metadata.date);
+  const tagSet = new Set<string>();
+
+  items.forEach((item) => item.data.metadata.tags?.forEach((tag) => tagSet.add(tag)));
+
+  const tags = Array.from(tagSet).sort();
+
+  const menu = new Menu();
+
+  const addMoveToOptions = (menu: Menu) => {
+    board.children.forEach((lane, laneIndex) => {
+      if (lane.data.query) return;
+
+      menu.addItem((i) =>
+        i
+          .setIcon('lucide-square-kanban')
+          .setTitle(lane.data.title)
+          .onClick(async () => {
+            const moving = lane.data.shouldMarkItemsComplete
+              ? items.filter((item) => canCompleteItem(stateManager, item))
+              : items;
+
+            if (!moving.length || !(await checkWipLimits(stateManager, lane, moving))) return;
+
+            boardModifiers.moveItems(
+              paths.filter((_, index) => moving.includes(items[index])),
+              laneIndex
+            );
+          })
+      );
+    });
+  };
+
+  if (Platform.isPhone) {
+    addMoveToOptions(menu);
+  } else {
+    menu.addItem((i) => {
+      const submenu = (i as any)
+        .setTitle(t('Move to list'))
+        .setIcon('lucide-square-kanban')
+        .setSubmenu();
+
+      addMoveToOptions(submenu);
+    });
+  }
+
+  menu
+    .addSeparator()
+    .addItem((i) => {
+      i.setIcon(shouldComplete ? 'lucide-check-square' : 'lucide-square')
+        .setTitle(shouldComplete ? t('Mark as complete') : t('Mark as incomplete'))
+        .onClick(() => {
+          // getToggledItems leaves blocked cards alone when they can't be completed
+          const toggling = paths.filter((_, index) => items[index].data.checked !== shouldComplete);
+
+          boardModifiers.updateItems(toggling, (item) => getToggledItems(stateManager, item));
+        });
+    })
+    .addItem((i) => {
+      i.setIcon('lucide-calendar-check')
+        .setTitle(t('Set date'))
+        .onClick(() => {
+          constructDatePicker(e.view, stateManager, coordinates, (dates) => {
+            boardModifiers.updateItems(paths, (item) =>
+              stateManager.updateItemContent(item, setItemDate(stateManager, item, dates[0]))
+            );
+          });
+        });
+    });
+
+  if (hasDate) {
+    menu.addItem((i) => {
+      i.setIcon('lucide-x')
+        .setTitle(t('Remove date'))
+        .onClick(() => {
+          boardModifiers.updateItems(paths, (item) =>
+            item.data.metadata.date
+              ? stateManager.updateItemContent(item, setItemDate(stateManager, item, null))
+              : item
+          );
+        });
+    });
+  }
+
+  menu.addItem((i) => {
+    i.setIcon('lucide-tag')
+      .setTitle(t('Add tag'))
+      .onClick(async () => {
+        const value = await promptText(stateManager.app, t('Tag to add'), t('Add tag'));
+        const tag = value && `#${value.replace(/^#+/, '').replace(tagSeparatorRegEx, '-')}`;
+
+        if (!tag || tag === '#') return;
+
+        boardModifiers.updateItems(paths, (item) => addTag(stateManager, item, tag));
+      });
+  });
+
+  if (tags.length) {
+    menu.addItem((i) => {
+      const submenu: Menu = (i as any)
+        .setTitle(t('Remove tag'))
+        .setIcon('lucide-tag')
+        .setSubmenu();
+
+      tags.forEach((tag) => {
+        submenu.addItem((sub) =>
+          sub.setTitle(tag).onClick(() => {
+            boardModifiers.updateItems(paths, (item) => removeTag(stateManager, item, tag));
+          })
+        );
+      });
+    });
+  }
+
+  menu
+    .addSeparator()
+    .addItem((i) => {
+      i.setIcon('lucide-archive')
+        .setTitle(t('Archive cards'))
+        .onClick(() => {
+          boardModifiers.archiveItems(paths);
+          selection.clear();
+        });
+    })
+    .addItem((i) => {
+      i.setIcon('lucide-trash-2')
+        .setTitle(t('Delete cards'))
+        .onClick(async () => {
+          const shouldDelete = await confirmAction(
+            stateManager.app,
+            `${t('Delete the selected cards?')} (${items.length})`,
+            t('Delete cards')
+          );
+
+          if (!shouldDelete) return;
+
+          boardModifiers.deleteItems(paths);
+          selection.clear();
+        });
+    })
+    .addSeparator()
+    .addItem((i) => {
+      i.setIcon('lucide-x')
+        .setTitle(t('Clear selection'))
+        .onClick(() => selection.clear());
+    });
+
+  menu.showAtPosition(coordinates);
+}
+
+// Shows the selection menu when a selected card is right clicked while others are selected
+// too. Returns false when the card's own menu should be shown instead.
+export function useSelectionMenu() {
+  const { stateManager, boardModifiers } = useContext(KanbanContext);
+  const selection = useContext(SelectionContext);
+
+  return useCallback(
+    (e: MouseEvent, item: Item) => {
+      if (!selection?.selected.has(item.id) || selection.selected.size < 2) return false;
+
+      showSelectionMenu(e, stateManager, boardModifiers, selection);
+      return true;
+    },
+    [stateManager, boardModifiers, selection]
+  );
+}
@@ -0,0 +1,49 @@
+import classcat from 'classcat';
+import Preact from 'preact/compat';
+import { t } from 'src/lang/helpers';
+
+import { Icon } from '../Icon/Icon';
+import { SubtaskContext } from '../context';
+import { c, getItemRef, getItemSubtaskProgress } from '../helpers';
+import { Item } from '../types';
+
+interface SubtaskProgressProps {
+  item: Item;
+}
+
+export const SubtaskProgress = Preact.memo(function SubtaskProgress({
+  item,
+}: SubtaskProgressProps) {
+  const subtasks = Preact.useContext(SubtaskContext);
+  const progress = subtasks ? getItemSubtaskProgress(subtasks.progress, item) : null;
+
+  if (!progress) return null;
+
+  const isCollapsed = subtasks.collapsed.has(getItemRef(item));
+
+  return (
+    <a
+      data-ignore-drag={true}
+      onPointerDown={(e) => e.preventDefault()}
+      onClick={(e) => {
+        // Don't open the card's note
+        e.stopPropagation();
+        subtasks.toggleCollapsed(item);
+      }}
+      className={classcat([
+        c('item-subtask-progress'),
+        'clickable-icon',
+        {
+          'is-collapsed': isCollapsed,
+          'is-complete': progress.done === progress.total,
+        },
+      ])}
+      aria-label={isCollapsed ? t('Show subtasks') : t('Hide subtasks')}
+    >
+      <Icon name={isCollapsed ? 'lucide-chevron-right' : 'lucide-chevron-down'} />
+      <span>
+        {progress.done}/{progress.total}
+      </span>
+    </a>
+  );
+});
@@ -1,15 +1,16 @@
 import { FileWithPath, fromEvent } from 'file-selector';
+import update from 'immutability-helper';
 import { Platform, TFile, TFolder, htmlToMarkdown, moment, parseLinktext, setIcon } from 'obsidian';
 import { StateManager } from 'src/StateManager';
 import { Path } from 'src/dnd/types';
 import { buildLinkToDailyNote } from 'src/helpers';
-import { getTaskStatusDone } from 'src/parsers/helpers/inlineMetadata';
+import { getTaskStatusDone, toggleTask } from 'src/parsers/helpers/inlineMetadata';
 
 import { BoardModifiers } from '../../helpers/boardModifiers';
 import { getDefaultLocale } from '../Editor/datePickerLocale';
 import flatpickr from '../Editor/flatpickr';
 import { Instance } from '../Editor/flatpickr/types/instance';
-import { c, escapeRegExpStr } from '../helpers';
+import { c, canCompleteItem, escapeRegExpStr } from '../helpers';
 import { Item } from '../types';
 
 export function constructDatePicker(
@@ -87,7 +88,6 @@ interface ConstructMenuDatePickerOnChangeParams {
   stateManager: StateManager;
   boardModifiers: BoardModifiers;
   item: Item;
-  hasDate: boolean;
   path: Path;
 }
 
@@ -95,9 +95,16 @@ export function constructMenuDatePickerOnChange({
   stateManager,
   boardModifiers,
   item,
-  hasDate,
   path,
 }: ConstructMenuDatePickerOnChangeParams) {
+  return (dates: Date[]) => {
+    const titleRaw = setItemDate(stateManager, item, dates[0]);
+    boardModifiers.updateItem(path, stateManager.updateItemContent(item, titleRaw));
+  };
+}
+
+// Returns the card's content with its date set, or removed when no date is given
+export function setItemDate(stateManager: StateManager, item: Item, date: Date | null) {
   const dateFormat = stateManager.getSetting('date-format');
   const shouldLinkDates = stateManager.getSetting('link-date-to-daily-note');
   const dateTrigger = stateManager.getSetting('date-trigger');
@@ -106,23 +113,59 @@ export function constructMenuDatePickerOnChange({
     : '{[^}]+}';
   const dateRegEx = new RegExp(`(^|\\s)${escapeRegExpStr(dateTrigger as string)}${contentMatch}`);
 
-  return (dates: Date[]) => {
-    const date = dates[0];
-    const formattedDate = moment(date).format(dateFormat);
-    const wrappedDate = shouldLinkDates
-      ? buildLinkToDailyNote(stateManager.app, formattedDate)
-      : `{${formattedDate}}`;
+  if (!date) return item.data.titleRaw.replace(dateRegEx, '').trim();
 
-    let titleRaw = item.data.titleRaw;
+  const formattedDate = moment(date).format(dateFormat);
+  const wrappedDate = shouldLinkDates
+    ? buildLinkToDailyNote(stateManager.app, formattedDate)
+    : `{${formattedDate}}`;
 
-    if (hasDate) {
-      titleRaw = item.data.titleRaw.replace(dateRegEx, `$1${dateTrigger}${wrappedDate}`);
-    } else {
-      titleRaw = `${item.data.titleRaw} ${dateTrigger}${wrappedDate}`;
-    }
+  if (item.data.metadata.date) {
+    return item.data.titleRaw.replace(dateRegEx, `$1${dateTrigger}${wrappedDate}`);
+  }
 
-    boardModifiers.updateItem(path, stateManager.updateItemContent(item, titleRaw));
-  };
+  return `${item.data.titleRaw} ${dateTrigger}${wrappedDate}`;
+}
+
+// Returns the cards that take the place of a card when it's checked or unchecked. Completing a
+// recurring task also adds its next occurrence.
+// Returns the card unchanged if it's blocked and the board refuses to complete it
+export function getToggledItems(stateManager: StateManager, item: Item): Item[] {
+  if (!item.data.checked && !canCompleteItem(stateManager, item)) return [item];
+
+  const updates = item.data.metadata.querySource ? null : toggleTask(item, stateManager.file);
+
+  if (updates) {
+    const [itemStrings, checkChars, thisIndex] = updates;
+
+    return itemStrings.map((str, i) => {
+      if (i === thisIndex) {
+        // Update the card in place so it keeps its id, block id and file
+        const toggled = update(item, {
+          data: {
+            checkChar: { $set: checkChars[i] },
+            checked: { $set: checkChars[i] !== ' ' },
+          },
+        });
+        return stateManager.updateItemContent(toggled, str);
+      }
+
+      return stateManager.getNewItem(str, checkChars[i]);
+    });
+  }
+
+  return [
+    update(item, {
+      data: {
+        checkChar: {
+          $apply: (v) => {
+            return v === ' ' ? getTaskStatusDone() : ' ';
+          },
+        },
+        $toggle: ['checked'],
+      },
+    }),
+  ];
 }
 
 export function buildTimeArray(stateManager: StateManager) {
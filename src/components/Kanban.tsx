@@ -14,13 +14,35 @@ import { t } from 'src/lang/helpers';
 import { DndScope } from '../dnd/components/Scope';
 import { getBoardModifiers } from '../helpers/boardModifiers';
 import { frontmatterKey } from '../parsers/common';
+import { CalendarView } from './Calendar/Calendar';
 import { Icon } from './Icon/Icon';
+import { showSelectionMenu } from './Item/SelectionMenu';
 import { Lanes } from './Lane/Lane';
 import { LaneForm } from './Lane/LaneForm';
+import { Swimlanes } from './Lane/Swimlanes';
+import { ReportView } from './Report/Report';
 import { TableView } from './Table/Table';
-import { KanbanContext, SearchContext } from './context';
-import { baseClassName, c, useSearchValue } from './helpers';
-import { DataTypes } from './types';
+import {
+  DependencyContext,
+  KanbanContext,
+  SearchContext,
+  SelectionContext,
+  SelectionContextProps,
+  SubtaskContext,
+  SubtaskContextProps,
+} from './context';
+import {
+  baseClassName,
+  c,
+  canSelectItem,
+  getBoardDependencies,
+  getBoardSwimlanes,
+  getItemRef,
+  getSelectedPaths,
+  getSubtaskProgress,
+  useSearchValue,
+} from './helpers';
+import { DataTypes, Item } from './types';
 
 const boardScrollTiggers = [DataTypes.Item, DataTypes.Lane];
 const boardAccepts = [DataTypes.Lane];
@@ -55,6 +77,8 @@ export const Kanban = ({ view, stateManager }: KanbanProps) => {
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState<string>('');
   const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
+  const selectionAnchor = useRef<string | null>(null);
 
   const [isLaneFormVisible, setIsLaneFormVisible] = useState<boolean>(
     boardData?.children?.length === 0
@@ -112,15 +136,42 @@ export const Kanban = ({ view, stateManager }: KanbanProps) => {
       setIsLaneFormVisible(true);
     };
 
+    const setSearch = (query: string) => {
+      setIsSearching(!!query);
+      setSearchQuery(query);
+      setDebouncedSearchQuery(query);
+    };
+
     view.emitter.on('hotkey', onSearchHotkey);
     view.emitter.on('showLaneForm', showLaneForm);
+    view.emitter.on('setSearch', setSearch);
 
     return () => {
       view.emitter.off('hotkey', onSearchHotkey);
       view.emitter.off('showLaneForm', showLaneForm);
+      view.emitter.off('setSearch', setSearch);
     };
   }, [view]);
 
+  useEffect(() => {
+    view.searchQuery = debouncedSearchQuery;
+  }, [debouncedSearchQuery, view]);
+
+  useEffect(() => {
+    view.selectedItems = selectedItems;
+    if (!selectedItems.size) return;
+
+    const win = view.getWindow();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && view.app.workspace.activeLeaf === view.leaf) {
+        setSelectedItems(new Set());
+      }
+    };
+
+    win.addEventListener('keydown', onKeyDown);
+    return () => win.removeEventListener('keydown', onKeyDown);
+  }, [selectedItems, view]);
+
   useEffect(() => {
     if (isSearching) {
       searchRef.current?.focus();
@@ -179,6 +230,26 @@ export const Kanban = ({ view, stateManager }: KanbanProps) => {
     };
   }, [view, stateManager, boardModifiers, filePath, dateColors, tagColors]);
 
+  const [collapsedSubtasks, setCollapsedSubtasks] = useState<Set<string>>(new Set());
+  const subtaskContext = useMemo<SubtaskContextProps>(() => {
+    return {
+      progress: getSubtaskProgress(boardData),
+      collapsed: collapsedSubtasks,
+      toggleCollapsed: (item) => {
+        setCollapsedSubtasks((collapsed) => {
+          const next = new Set(collapsed);
+          const ref = getItemRef(item);
+          if (next.has(ref)) next.delete(ref);
+          else next.add(ref);
+          return next;
+        });
+      },
+    };
+  }, [boardData, collapsedSubtasks]);
+
+  const swimlanes = useMemo(() => getBoardSwimlanes(boardData), [boardData]);
+  const dependencies = useMemo(() => getBoardDependencies(boardData), [boardData]);
+
   const html5DragHandlers = createHTMLDndHandlers(stateManager);
 
   if (boardData === null || boardData === undefined)
@@ -205,93 +276,179 @@ export const Kanban = ({ view, stateManager }: KanbanProps) => {
   }
 
   const axis = boardView === 'list' ? 'vertical' : 'horizontal';
+  const showSwimlanes = axis === 'horizontal' && swimlanes.length > 0;
   const searchValue = useSearchValue(
     boardData,
     debouncedSearchQuery,
+    stateManager,
     setSearchQuery,
     setDebouncedSearchQuery,
     setIsSearching
   );
 
+  const selectionContext = useMemo<SelectionContextProps>(() => {
+    const getVisibleItems = () =>
+      boardData.children.reduce<Item[]>(
+        (items, lane) =>
+          items.concat(
+            lane.children.filter((item) => !searchValue?.query || searchValue.items.has(item))
+          ),
+        []
+      );
+
+    return {
+      selected: selectedItems,
+      select: (item, mode, order) => {
+        const anchor = selectionAnchor.current;
+        const items = (order || getVisibleItems()).filter(canSelectItem);
+        const from = items.findIndex((other) => other.id === anchor);
+        const to = items.findIndex((other) => other.id === item.id);
+
+        setSelectedItems((selected) => {
+          const next = new Set(selected);
+
+          if (mode === 'range' && from > -1 && to > -1) {
+            items
+              .slice(Math.min(from, to), Math.max(from, to) + 1)
+              .forEach((other) => next.add(other.id));
+          } else if (next.has(item.id)) {
+            next.delete(item.id);
+          } else {
+            next.add(item.id);
+          }
+
+          return next;
+        });
+
+        if (mode === 'toggle' || from === -1) selectionAnchor.current = item.id;
+      },
+      clear: () => {
+        selectionAnchor.current = null;
+        setSelectedItems((selected) => (selected.size ? new Set() : selected));
+      },
+    };
+  }, [boardData, searchValue, selectedItems]);
+
+  const selectedCount = getSelectedPaths(boardData, selectedItems).length;
+
   return (
     <DndScope id={view.id}>
       <KanbanContext.Provider value={kanbanContext}>
         <SearchContext.Provider value={searchValue}>
-          <div
-            ref={rootRef}
-            className={classcat([
-              baseClassName,
-              {
-                'something-is-dragging': isAnythingDragging,
-              },
-              ...getCSSClass(boardData.data.frontmatter),
-            ])}
-            {...html5DragHandlers}
-          >
-            {(isLaneFormVisible && boardData?.children?.length === 0) && (
-              <LaneForm onNewLane={onNewLane} closeLaneForm={closeLaneForm} />
-            )}
-            {isSearching && (
-              <div className={c('search-wrapper')}>
-                <input
-                  ref={searchRef}
-                  value={searchQuery}
-                  onChange={(e) => {
-                    setSearchQuery((e.target as HTMLInputElement).value);
-                  }}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Escape') {
-                      setSearchQuery('');
-                      setDebouncedSearchQuery('');
-                      (e.target as HTMLInputElement).blur();
-                      setIsSearching(false);
-                    }
-                  }}
-                  type="text"
-                  className={c('filter-input')}
-                  placeholder={t('Search...')}
-                />
-                <a
-                  className={`${c('search-cancel-button')} clickable-icon`}
-                  onClick={() => {
-                    setSearchQuery('');
-                    setDebouncedSearchQuery('');
-                    setIsSearching(false);
-                  }}
-                  aria-label={t('Cancel')}
+          <SelectionContext.Provider value={selectionContext}>
+            <SubtaskContext.Provider value={subtaskContext}>
+              <DependencyContext.Provider value={dependencies}>
+                <div
+                  ref={rootRef}
+                  className={classcat([
+                    baseClassName,
+                    {
+                      'something-is-dragging': isAnythingDragging,
+                    },
+                    ...getCSSClass(boardData.data.frontmatter),
+                  ])}
+                  {...html5DragHandlers}
                 >
-                  <Icon name="lucide-x" />
-                </a>
-              </div>
-            )}
-            {boardView === 'table' ? (
-              <TableView boardData={boardData} stateManager={stateManager} />
-            ) : (
-              <ScrollContainer
-                id={view.id}
-                className={classcat([
-                  c('board'),
-                  {
-                    [c('horizontal')]: boardView !== 'list',
-                    [c('vertical')]: boardView === 'list',
-                    'is-adding-lane': isLaneFormVisible,
-                  },
-                ])}
-                triggerTypes={boardScrollTiggers}
-              >
-                <div>
-                  <Sortable axis={axis}>
-                    <Lanes lanes={boardData.children} collapseDir={axis} />
-                    <SortPlaceholder
-                      accepts={boardAccepts}
-                      className={c('lane-placeholder')}
-                      index={boardData.children?.length}
-                    />
-                  </Sortable>
+                  {(isLaneFormVisible && boardData?.children?.length === 0) && (
+                    <LaneForm onNewLane={onNewLane} closeLaneForm={closeLaneForm} />
+                  )}
+                  {isSearching && (
+                    <div className={c('search-wrapper')}>
+                      <input
+                        ref={searchRef}
+                        value={searchQuery}
+                        onChange={(e) => {
+                          setSearchQuery((e.target as HTMLInputElement).value);
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Escape') {
+                            setSearchQuery('');
+                            setDebouncedSearchQuery('');
+                            (e.target as HTMLInputElement).blur();
+                            setIsSearching(false);
+                          }
+                        }}
+                        type="text"
+                        className={c('filter-input')}
+                        placeholder={t('Search...')}
+                      />
+                      <a
+                        className={`${c('search-cancel-button')} clickable-icon`}
+                        onClick={() => {
+                          setSearchQuery('');
+                          setDebouncedSearchQuery('');
+                          setIsSearching(false);
+                        }}
+                        aria-label={t('Cancel')}
+                      >
+                        <Icon name="lucide-x" />
+                      </a>
+                    </div>
+                  )}
+                  {selectedCount > 0 && (
+                    <div className={c('selection-bar')}>
+                      <span className={c('selection-count')}>
+                        {`${t('Selected cards')}: ${selectedCount}`}
+                      </span>
+                      <button
+                        onClick={(e) =>
+                          showSelectionMenu(e, stateManager, boardModifiers, selectionContext)
+                        }
+                      >
+                        {t('Actions')}
+                      </button>
+                      <a
+                        className={`${c('search-cancel-button')} clickable-icon`}
+                        onClick={selectionContext.clear}
+                        aria-label={t('Clear selection')}
+                      >
+                        <Icon name="lucide-x" />
+                      </a>
+                    </div>
+                  )}
+                  {boardView === 'table' ? (
+                    <TableView boardData={boardData} stateManager={stateManager} />
+                  ) : boardView === 'report' ? (
+                    <ReportView boardData={boardData} stateManager={stateManager} />
+                  ) : boardView === 'calendar' ? (
+                    <CalendarView boardData={boardData} stateManager={stateManager} />
+                  ) : (
+                    <ScrollContainer
+                      id={view.id}
+                      className={classcat([
+                        c('board'),
+                        {
+                          [c('horizontal')]: boardView !== 'list',
+                          [c('vertical')]: boardView === 'list',
+                          'is-adding-lane': isLaneFormVisible,
+                        },
+                      ])}
+                      triggerTypes={boardScrollTiggers}
+                    >
+                      <div className={showSwimlanes ? c('swimlanes') : undefined}>
+                        {showSwimlanes ? (
+                          <Swimlanes
+                            lanes={boardData.children}
+                            swimlanes={swimlanes}
+                            collapseDir={axis}
+                          />
+                        ) : (
+                          <Sortable axis={axis}>
+                            <Lanes lanes={boardData.children} collapseDir={axis} />
+                            <SortPlaceholder
+                              accepts={boardAccepts}
+                              className={c('lane-placeholder')}
+                              index={boardData.children?.length}
+                            />
+                          </Sortable>
+                        )}
+                      </div>
+                    </ScrollContainer>
+                  )}
                 </div>
-              </ScrollContainer>
-            )}
-          </div>
+              </DependencyContext.Provider>
+            </SubtaskContext.Provider>
+          </SelectionContext.Provider>
         </SearchContext.Provider>
       </KanbanContext.Provider>
     </DndScope>
@@ -12,6 +12,8 @@ import { ScrollContainer } from 'src/dnd/components/ScrollContainer';
 import { SortPlaceholder } from 'src/dnd/components/SortPlaceholder';
 import { Sortable, StaticSortable } from 'src/dnd/components/Sortable';
 import { useDragHandle } from 'src/dnd/managers/DragManager';
+import { canRunQueries } from 'src/helpers/queryLanes';
+import { t } from 'src/lang/helpers';
 import { frontmatterKey } from 'src/parsers/common';
 import { getTaskStatusDone } from 'src/parsers/helpers/inlineMetadata';
 
@@ -21,6 +23,7 @@ import { KanbanContext, SearchContext, SortContext } from '../context';
 import { c, generateInstanceId } from '../helpers';
 import { DataTypes, EditState, EditingState, Item, Lane } from '../types';
 import { LaneHeader } from './LaneHeader';
+import { checkWipLimits, isLaneWipFull } from './helpers';
 
 const laneAccepts = [DataTypes.Item];
 
@@ -30,6 +33,9 @@ export interface DraggableLaneProps {
   isStatic?: boolean;
   collapseDir: 'horizontal' | 'vertical';
   isCollapsed?: boolean;
+  // The swimlane row this lane is rendered in; null is the row of cards outside any swimlane
+  swimlane?: string | null;
+  hideHeader?: boolean;
 }
 
 function DraggableLaneRaw({
@@ -38,6 +44,8 @@ function DraggableLaneRaw({
   laneIndex,
   collapseDir,
   isCollapsed = false,
+  swimlane,
+  hideHeader,
 }: DraggableLaneProps) {
   const [editState, setEditState] = useState<EditState>(EditingState.cancel);
   const [isSorting, setIsSorting] = useState(false);
@@ -58,6 +66,19 @@ function DraggableLaneRaw({
     [fullWidth, laneWidth, isCollapsed]
   );
 
+  // A lane is rendered once per swimlane row, so each copy needs its own entity id, and
+  // tells drops which row they landed in
+  const isInSwimlane = swimlane !== undefined;
+  const laneEntityId = isInSwimlane ? `${lane.id}-${swimlane ?? ''}` : lane.id;
+  const laneEntityData = useMemo(
+    () => (isInSwimlane ? { ...lane, swimlane } : lane),
+    [lane, swimlane, isInSwimlane]
+  );
+  const placeholderData = useMemo(
+    () => (isInSwimlane ? { swimlane } : undefined),
+    [swimlane, isInSwimlane]
+  );
+
   const elementRef = useRef<HTMLDivElement>(null);
   const measureRef = useRef<HTMLDivElement>(null);
   const dragHandleRef = useRef<HTMLDivElement>(null);
@@ -65,6 +86,9 @@ function DraggableLaneRaw({
   const bindHandle = useDragHandle(measureRef, dragHandleRef);
 
   const shouldMarkItemsComplete = !!lane.data.shouldMarkItemsComplete;
+  // Cards in query lists can't be added or reordered, only edited where they live
+  const isQueryLane = !!lane.data.query;
+  const areItemsStatic = isStatic || isQueryLane;
   const isCompactPrepend = insertionMethod === 'prepend-compact';
   const shouldPrepend = isCompactPrepend || insertionMethod === 'prepend';
 
@@ -80,7 +104,9 @@ function DraggableLaneRaw({
   }, [stateManager, laneIndex]);
 
   const addItems = useCallback(
-    (items: Item[]) => {
+    async (items: Item[]) => {
+      if (!(await checkWipLimits(stateManager, lane, items))) return;
+
       boardModifiers[shouldPrepend ? 'prependItems' : 'appendItems'](
         [...path, lane.children.length - 1],
         items.map((item) =>
@@ -93,6 +119,8 @@ function DraggableLaneRaw({
               checkChar: {
                 $set: shouldMarkItemsComplete ? getTaskStatusDone() : ' ',
               },
+              // Cards added in a swimlane row belong to that swimlane
+              ...(swimlane ? { metadata: { swimlane: { $set: swimlane } } } : {}),
             },
           })
         )
@@ -114,11 +142,13 @@ function DraggableLaneRaw({
         }
       });
     },
-    [boardModifiers, path, lane, shouldPrepend]
+    [stateManager, boardModifiers, path, lane, shouldPrepend, swimlane]
   );
 
+  const isWipFull = isLaneWipFull(lane);
+
   const DroppableComponent = isStatic ? StaticDroppable : Droppable;
-  const SortableComponent = isStatic ? StaticSortable : Sortable;
+  const SortableComponent = areItemsStatic ? StaticSortable : Sortable;
   const CollapsedDropArea = !isCollapsed || isStatic ? Fragment : Droppable;
   const dropAreaProps: DraggableProps = useMemo(() => {
     if (!isCollapsed || isStatic) return {} as any;
@@ -127,6 +157,7 @@ function DraggableLaneRaw({
       type: 'lane',
       accepts: [DataTypes.Item],
       acceptsSort: [DataTypes.Lane],
+      ...placeholderData,
     };
     return {
       elementRef: elementRef,
@@ -135,7 +166,7 @@ function DraggableLaneRaw({
       index: laneIndex,
       data: data,
     };
-  }, [isCollapsed, laneIndex, isStatic]);
+  }, [isCollapsed, laneIndex, isStatic, placeholderData]);
 
   return (
     <SortContext.Provider value={lane.data.sorted ?? null}>
@@ -157,19 +188,24 @@ function DraggableLaneRaw({
           className={classcat([c('lane'), { 'will-prepend': shouldPrepend }])}
         >
           <CollapsedDropArea {...dropAreaProps}>
-            <LaneHeader
-              bindHandle={bindHandle}
-              laneIndex={laneIndex}
-              lane={lane}
-              setIsItemInputVisible={isCompactPrepend ? setEditState : undefined}
-              isCollapsed={isCollapsed}
-              toggleIsCollapsed={toggleIsCollapsed}
-            />
-
-            {!search?.query && !isCollapsed && shouldPrepend && (
+            {!hideHeader && (
+              <LaneHeader
+                bindHandle={bindHandle}
+                laneIndex={laneIndex}
+                lane={lane}
+                setIsItemInputVisible={
+                  isCompactPrepend && !isWipFull && !isQueryLane ? setEditState : undefined
+                }
+                isCollapsed={isCollapsed}
+                toggleIsCollapsed={toggleIsCollapsed}
+              />
+            )}
+
+            {!search?.query && !isCollapsed && !isQueryLane && shouldPrepend && (
               <ItemForm
                 addItems={addItems}
                 hideButton={isCompactPrepend}
+                isDisabled={isWipFull}
                 editState={editState}
                 setEditState={setEditState}
               />
@@ -179,13 +215,13 @@ function DraggableLaneRaw({
               <DroppableComponent
                 elementRef={elementRef}
                 measureRef={measureRef}
-                id={lane.id}
+                id={laneEntityId}
                 index={laneIndex}
-                data={lane}
+                data={laneEntityData}
               >
                 <ScrollContainer
                   className={classcat([c('lane-items'), c('vertical')])}
-                  id={lane.id}
+                  id={laneEntityId}
                   index={laneIndex}
                   isStatic={isStatic}
                   triggerTypes={laneAccepts}
@@ -193,21 +229,35 @@ function DraggableLaneRaw({
                   <SortableComponent onSortChange={setIsSorting} axis="vertical">
                     <Items
                       items={lane.children}
-                      isStatic={isStatic}
+                      isStatic={areItemsStatic}
                       shouldMarkItemsComplete={shouldMarkItemsComplete}
+                      swimlane={swimlane}
                     />
+                    {isQueryLane && !lane.children.length && (
+                      <div className={c('lane-query-empty')}>
+                        {canRunQueries()
+                          ? t('No cards match this query')
+                          : t('Query lists need the Dataview plugin')}
+                      </div>
+                    )}
                     <SortPlaceholder
                       accepts={laneAccepts}
                       index={lane.children.length}
-                      isStatic={isStatic}
+                      isStatic={areItemsStatic}
+                      data={placeholderData}
                     />
                   </SortableComponent>
                 </ScrollContainer>
               </DroppableComponent>
             )}
 
-            {!search?.query && !isCollapsed && !shouldPrepend && (
-              <ItemForm addItems={addItems} editState={editState} setEditState={setEditState} />
+            {!search?.query && !isCollapsed && !isQueryLane && !shouldPrepend && (
+              <ItemForm
+                addItems={addItems}
+                isDisabled={isWipFull}
+                editState={editState}
+                setEditState={setEditState}
+              />
             )}
           </CollapsedDropArea>
         </div>
@@ -221,9 +271,11 @@ export const DraggableLane = memo(DraggableLaneRaw);
 export interface LanesProps {
   lanes: Lane[];
   collapseDir: 'horizontal' | 'vertical';
+  swimlane?: string | null;
+  hideHeaders?: boolean;
 }
 
-function LanesRaw({ lanes, collapseDir }: LanesProps) {
+function LanesRaw({ lanes, collapseDir, swimlane, hideHeaders }: LanesProps) {
   const search = useContext(SearchContext);
   const { view } = useContext(KanbanContext);
   const boardView = view.useViewState(frontmatterKey) || 'board';
@@ -239,6 +291,8 @@ function LanesRaw({ lanes, collapseDir }: LanesProps) {
             key={boardView + lane.id}
             lane={lane}
             laneIndex={i}
+            swimlane={swimlane}
+            hideHeader={hideHeaders}
           />
         );
       })}
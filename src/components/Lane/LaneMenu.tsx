@@ -1,15 +1,14 @@
-import update from 'immutability-helper';
 import { Menu, Platform } from 'obsidian';
 import { Dispatch, StateUpdater, useContext, useEffect, useMemo, useState } from 'preact/hooks';
 import { Path } from 'src/dnd/types';
-import { defaultSort } from 'src/helpers/util';
 import { t } from 'src/lang/helpers';
+import { AggregateFormat } from 'src/parsers/AggregateFormat';
 import { lableToName } from 'src/parsers/helpers/inlineMetadata';
 
-import { anyToString } from '../Item/MetadataTable';
 import { KanbanContext } from '../context';
 import { c, generateInstanceId } from '../helpers';
 import { EditState, Lane, LaneSort, LaneTemplate } from '../types';
+import { sortLane } from './helpers';
 
 export type LaneAction = 'delete' | 'archive' | 'archive-items' | null;
 
@@ -36,18 +35,36 @@ export interface ConfirmActionProps {
 }
 
 export function ConfirmAction({ action, cancel, onAction, lane }: ConfirmActionProps) {
+  const { stateManager } = useContext(KanbanContext);
+
+  // Deleting a lane of an aggregate board deletes it from every board it was merged from
+  const { parser } = stateManager;
+  const boards =
+    action === 'delete' && parser instanceof AggregateFormat ? parser.getLaneBoards(lane.id) : [];
+  const shouldConfirm = lane.children.length > 0 || boards.length > 0;
+
   useEffect(() => {
     // Immediately execute action if lane is empty
-    if (action && lane.children.length === 0) {
+    if (action && !shouldConfirm) {
       onAction();
     }
-  }, [action, lane.children.length]);
+  }, [action, shouldConfirm]);
 
-  if (!action || (action && lane.children.length === 0)) return null;
+  if (!action || !shouldConfirm) return null;
 
   return (
     <div className={c('action-confirm-wrapper')}>
       <div className={c('action-confirm-text')}>{actionLabels[action].description}</div>
+      {boards.length > 0 && (
+        <div className={c('action-confirm-text')}>
+          {t('This list and its cards will also be deleted from these boards')}:
+          <ul>
+            {boards.map((file) => (
+              <li key={file.path}>{file.path}</li>
+            ))}
+          </ul>
+        </div>
+      )}
       <div>
         <button onClick={onAction} className={c('confirm-action-button')}>
           {actionLabels[action].confirm}
@@ -88,19 +105,25 @@ export function useSettingsMenu({ setEditState, path, lane }: UseSettingsMenuPar
       if (!canSortTags && item.data.metadata.tags?.length) canSortTags = true;
     });
 
-    const menu = new Menu()
-      .addItem((item) => {
-        item
-          .setIcon('lucide-edit-3')
-          .setTitle(t('Edit list'))
-          .onClick(() => setEditState({ x: 0, y: 0 }));
-      })
-      .addItem((item) => {
+    // Cards in query lists belong to other files, so they can't be archived or sorted here
+    const isQueryLane = !!lane.data.query;
+    const menu = new Menu().addItem((item) => {
+      item
+        .setIcon('lucide-edit-3')
+        .setTitle(t('Edit list'))
+        .onClick(() => setEditState({ x: 0, y: 0 }));
+    });
+
+    if (!isQueryLane) {
+      menu.addItem((item) => {
         item
           .setIcon('lucide-archive')
           .setTitle(t('Archive cards'))
           .onClick(() => setConfirmAction('archive-items'));
-      })
+      });
+    }
+
+    menu
       .addSeparator()
       .addItem((i) => {
         i.setIcon('arrow-left-to-line')
@@ -138,13 +161,18 @@ export function useSettingsMenu({ setEditState, path, lane }: UseSettingsMenuPar
             });
           });
       })
-      .addSeparator()
-      .addItem((item) => {
+      .addSeparator();
+
+    if (!isQueryLane) {
+      menu.addItem((item) => {
         item
           .setIcon('lucide-archive')
           .setTitle(t('Archive list'))
           .onClick(() => setConfirmAction('archive'));
-      })
+      });
+    }
+
+    menu
       .addItem((item) => {
         item
           .setIcon('lucide-trash-2')
@@ -153,38 +181,21 @@ export function useSettingsMenu({ setEditState, path, lane }: UseSettingsMenuPar
       })
       .addSeparator();
 
+    if (isQueryLane) return menu;
+
     const addSortOptions = (menu: Menu) => {
       menu.addItem((item) => {
         item
           .setIcon('arrow-down-up')
           .setTitle(t('Sort by card text'))
           .onClick(() => {
-            const children = lane.children.slice();
-            const isAsc = lane.data.sorted === LaneSort.TitleAsc;
-
-            children.sort((a, b) => {
-              if (isAsc) {
-                return b.data.titleRaw.localeCompare(a.data.titleRaw);
-              }
-
-              return a.data.titleRaw.localeCompare(b.data.titleRaw);
-            });
-
             boardModifiers.updateLane(
               path,
-              update(lane, {
-                children: {
-                  $set: children,
-                },
-                data: {
-                  sorted: {
-                    $set:
-                      lane.data.sorted === LaneSort.TitleAsc
-                        ? LaneSort.TitleDsc
-                        : LaneSort.TitleAsc,
-                  },
-                },
-              })
+              sortLane(
+                stateManager,
+                lane,
+                lane.data.sorted === LaneSort.TitleAsc ? LaneSort.TitleDsc : LaneSort.TitleAsc
+              )
             );
           });
       });
@@ -195,35 +206,13 @@ export function useSettingsMenu({ setEditState, path, lane }: UseSettingsMenuPar
             .setIcon('arrow-down-up')
             .setTitle(t('Sort by date'))
             .onClick(() => {
-              const children = lane.children.slice();
-              const mod = lane.data.sorted === LaneSort.DateAsc ? -1 : 1;
-
-              children.sort((a, b) => {
-                const aDate: moment.Moment | undefined =
-                  a.data.metadata.time || a.data.metadata.date;
-                const bDate: moment.Moment | undefined =
-                  b.data.metadata.time || b.data.metadata.date;
-
-                if (aDate && !bDate) return -1 * mod;
-                if (bDate && !aDate) return 1 * mod;
-                if (!aDate && !bDate) return 0;
-
-                return (aDate.isBefore(bDate) ? -1 : 1) * mod;
-              });
-
               boardModifiers.updateLane(
                 path,
-                update(lane, {
-                  children: {
-                    $set: children,
-                  },
-                  data: {
-                    sorted: {
-                      $set:
-                        lane.data.sorted === LaneSort.DateAsc ? LaneSort.DateDsc : LaneSort.DateAsc,
-                    },
-                  },
-                })
+                sortLane(
+                  stateManager,
+                  lane,
+                  lane.data.sorted === LaneSort.DateAsc ? LaneSort.DateDsc : LaneSort.DateAsc
+                )
               );
             });
         });
@@ -235,46 +224,13 @@ export function useSettingsMenu({ setEditState, path, lane }: UseSettingsMenuPar
             .setIcon('arrow-down-up')
             .setTitle(t('Sort by tags'))
             .onClick(() => {
-              const tagSortOrder = stateManager.getSetting('tag-sort');
-              const children = lane.children.slice();
-              const desc = lane.data.sorted === LaneSort.TagsAsc ? true : false;
-
-              children.sort((a, b) => {
-                const tagsA = a.data.metadata.tags;
-                const tagsB = b.data.metadata.tags;
-
-                if (!tagsA?.length && !tagsB?.length) return 0;
-                if (!tagsA?.length) return 1;
-                if (!tagsB?.length) return -1;
-
-                const aSortOrder =
-                  tagSortOrder?.findIndex((sort) => tagsA.includes(sort.tag)) ?? -1;
-                const bSortOrder =
-                  tagSortOrder?.findIndex((sort) => tagsB.includes(sort.tag)) ?? -1;
-
-                if (aSortOrder > -1 && bSortOrder < 0) return desc ? 1 : -1;
-                if (bSortOrder > -1 && aSortOrder < 0) return desc ? -1 : 1;
-                if (aSortOrder > -1 && bSortOrder > -1) {
-                  return desc ? bSortOrder - aSortOrder : aSortOrder - bSortOrder;
-                }
-
-                if (desc) return defaultSort(tagsB.join(''), tagsA.join(''));
-                return defaultSort(tagsA.join(''), tagsB.join(''));
-              });
-
               boardModifiers.updateLane(
                 path,
-                update(lane, {
-                  children: {
-                    $set: children,
-                  },
-                  data: {
-                    sorted: {
-                      $set:
-                        lane.data.sorted === LaneSort.TagsAsc ? LaneSort.TagsDsc : LaneSort.TagsAsc,
-                    },
-                  },
-                })
+                sortLane(
+                  stateManager,
+                  lane,
+                  lane.data.sorted === LaneSort.TagsAsc ? LaneSort.TagsDsc : LaneSort.TagsAsc
+                )
               );
             });
         });
@@ -286,41 +242,13 @@ export function useSettingsMenu({ setEditState, path, lane }: UseSettingsMenuPar
             i.setIcon('arrow-down-up')
               .setTitle(t('Sort by') + ' ' + lableToName(k).toLocaleLowerCase())
               .onClick(() => {
-                const children = lane.children.slice();
-                const desc = lane.data.sorted === k + '-asc' ? true : false;
-
-                children.sort((a, b) => {
-                  const valA = a.data.metadata.inlineMetadata?.find((m) => m.key === k);
-                  const valB = b.data.metadata.inlineMetadata?.find((m) => m.key === k);
-
-                  if (valA === undefined && valB === undefined) return 0;
-                  if (valA === undefined) return 1;
-                  if (valB === undefined) return -1;
-
-                  if (desc) {
-                    return defaultSort(
-                      anyToString(valB.value, stateManager),
-                      anyToString(valA.value, stateManager)
-                    );
-                  }
-                  return defaultSort(
-                    anyToString(valA.value, stateManager),
-                    anyToString(valB.value, stateManager)
-                  );
-                });
-
                 boardModifiers.updateLane(
                   path,
-                  update(lane, {
-                    children: {
-                      $set: children,
-                    },
-                    data: {
-                      sorted: {
-                        $set: lane.data.sorted === k + '-asc' ? k + '-desc' : k + '-asc',
-                      },
-                    },
-                  })
+                  sortLane(
+                    stateManager,
+                    lane,
+                    lane.data.sorted === k + '-asc' ? k + '-desc' : k + '-asc'
+                  )
                 );
               });
           });
@@ -1,11 +1,13 @@
 import update from 'immutability-helper';
+import { Notice } from 'obsidian';
 import { useContext } from 'preact/compat';
 import { Path } from 'src/dnd/types';
 import { t } from 'src/lang/helpers';
+import { parseWipLimits, wipLimitsToString } from 'src/parsers/helpers/parser';
 
 import { KanbanContext } from '../context';
 import { c } from '../helpers';
-import { EditState, Lane, isEditing } from '../types';
+import { EditState, Lane, WipMode, isEditing } from '../types';
 
 export interface LaneSettingsProps {
   lane: Lane;
@@ -34,6 +36,72 @@ export function LaneSettings({ lane, lanePath, editState }: LaneSettingsProps) {
           className={`checkbox-container ${lane.data.shouldMarkItemsComplete ? 'is-enabled' : ''}`}
         />
       </div>
+      <div className={c('checkbox-wrapper')}>
+        <div className={c('checkbox-label')}>{t('When the WIP limit is exceeded')}</div>
+        <select
+          className="dropdown"
+          value={lane.data.wipMode ?? ''}
+          onChange={(e) =>
+            boardModifiers.updateLane(
+              lanePath,
+              update(lane, {
+                data: { wipMode: { $set: (e.currentTarget.value as WipMode) || undefined } },
+              })
+            )
+          }
+        >
+          <option value="">{t('Only highlight the count')}</option>
+          <option value="warn">{t('Show a warning')}</option>
+          <option value="soft">{t('Ask for confirmation')}</option>
+          <option value="hard">{t('Block new cards')}</option>
+        </select>
+      </div>
+      <div className={c('checkbox-wrapper')}>
+        <div className={c('checkbox-label')}>{t('WIP limits per tag or assignee')}</div>
+        <input
+          type="text"
+          placeholder="#bug=2, alice=1"
+          defaultValue={wipLimitsToString(lane.data.wipLimits)}
+          onBlur={(e) =>
+            boardModifiers.updateLane(
+              lanePath,
+              update(lane, {
+                data: { wipLimits: { $set: parseWipLimits(e.currentTarget.value) } },
+              })
+            )
+          }
+        />
+      </div>
+      {(lane.data.query || !lane.children.length) && (
+        <div className={c('checkbox-wrapper')}>
+          <div className={c('checkbox-label')}>{t('Fill this list from a Dataview query')}</div>
+          <input
+            type="text"
+            placeholder="FROM #urgent WHERE due <= date(today) + dur(7 days)"
+            defaultValue={lane.data.query ?? ''}
+            onBlur={(e) => {
+              const query = e.currentTarget.value.trim();
+              if (query === (lane.data.query ?? '')) return;
+
+              // Markdown boards keep the query in a %% comment, which it would close early
+              if (query.includes('%%')) {
+                new Notice(t('Queries cannot contain %%'));
+                e.currentTarget.value = lane.data.query ?? '';
+                return;
+              }
+
+              // The list is refilled from the new query, or emptied when the query is removed
+              boardModifiers.updateLane(
+                lanePath,
+                update(lane, {
+                  children: { $set: [] },
+                  data: { query: { $set: query || undefined } },
+                })
+              );
+            }}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,54 @@
+import { memo, useMemo } from 'preact/compat';
+import { SortPlaceholder } from 'src/dnd/components/SortPlaceholder';
+import { Sortable } from 'src/dnd/components/Sortable';
+import { t } from 'src/lang/helpers';
+
+import { c } from '../helpers';
+import { DataTypes, Lane } from '../types';
+import { Lanes } from './Lane';
+
+const swimlaneAccepts = [DataTypes.Lane];
+
+interface SwimlanesProps {
+  lanes: Lane[];
+  swimlanes: string[];
+  collapseDir: 'horizontal' | 'vertical';
+}
+
+function SwimlanesRaw({ lanes, swimlanes, collapseDir }: SwimlanesProps) {
+  // Cards that aren't in a swimlane get a row of their own, shown only while there are any
+  const hasUnassigned = useMemo(
+    () => lanes.some((lane) => lane.children.some((item) => !item.data.metadata.swimlane)),
+    [lanes]
+  );
+  const rows: Array<string | null> = hasUnassigned ? [null, ...swimlanes] : swimlanes;
+
+  return (
+    <>
+      {rows.map((swimlane, i) => (
+        <div key={swimlane ?? ''} className={c('swimlane')}>
+          <div className={c('swimlane-title')}>{swimlane ?? t('No swimlane')}</div>
+          <div className={c('swimlane-lanes')}>
+            <Sortable axis={collapseDir}>
+              <Lanes
+                lanes={lanes}
+                collapseDir={collapseDir}
+                swimlane={swimlane}
+                hideHeaders={i > 0}
+              />
+              {i === 0 && (
+                <SortPlaceholder
+                  accepts={swimlaneAccepts}
+                  className={c('lane-placeholder')}
+                  index={lanes.length}
+                />
+              )}
+            </Sortable>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
+
+export const Swimlanes = memo(SwimlanesRaw);
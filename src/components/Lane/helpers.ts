@@ -0,0 +1,230 @@
+import update from 'immutability-helper';
+import { Notice } from 'obsidian';
+import { StateManager } from 'src/StateManager';
+import { defaultSort } from 'src/helpers/util';
+import { t } from 'src/lang/helpers';
+
+import { confirmAction } from '../ConfirmModal';
+import { anyToString } from '../Item/MetadataTable';
+import { Item, Lane, LaneSort, PageDataValue } from '../types';
+
+const laneColors = [
+  'var(--color-blue)',
+  'var(--color-green)',
+  'var(--color-yellow)',
+  'var(--color-orange)',
+  'var(--color-purple)',
+  'var(--color-cyan)',
+  'var(--color-pink)',
+  'var(--color-red)',
+];
+
+// Each list gets a color by its position, shared by the report charts and the calendar
+export function getLaneColor(index: number) {
+  return laneColors[index % laneColors.length];
+}
+
+export interface WipViolation {
+  label: string;
+  count: number;
+  limit: number;
+}
+
+// Assignees are read from an `assignee` inline field or frontmatter key on the card
+export function getItemAssignees(item: Item): string[] {
+  const { inlineMetadata, fileMetadata } = item.data.metadata;
+  const values: PageDataValue[] = [];
+
+  inlineMetadata?.forEach((field) => {
+    if (field.key.toLowerCase() === 'assignee') values.push(field.value);
+  });
+
+  const fileValue = fileMetadata?.assignee?.value;
+  if (fileValue) values.push(...(Array.isArray(fileValue) ? fileValue : [fileValue]));
+
+  return values
+    .reduce<string[]>((names, value) => names.concat(String(value).split(',')), [])
+    .map((name) => name.replace(/^\[\[|\]\]$/g, '').trim().toLowerCase())
+    .filter((name) => !!name);
+}
+
+function itemMatchesWipKey(item: Item, key: string) {
+  const name = key.toLowerCase();
+
+  if (name.startsWith('#')) {
+    return !!item.data.metadata.tags?.some((tag) => tag.toLowerCase() === name);
+  }
+
+  return getItemAssignees(item).includes(name);
+}
+
+// Lists the limits the lane would go over once the given cards are added to it. Cards that
+// are already in the lane don't count as added.
+export function getWipViolations(lane: Lane, items: Item[]): WipViolation[] {
+  const laneIds = new Set(lane.children.map((item) => item.id));
+  const added = items.filter((item) => !laneIds.has(item.id));
+
+  if (!added.length) return [];
+
+  const all = lane.children.concat(added);
+  const violations: WipViolation[] = [];
+
+  if (lane.data.maxItems && all.length > lane.data.maxItems) {
+    violations.push({ label: lane.data.title, count: all.length, limit: lane.data.maxItems });
+  }
+
+  Object.entries(lane.data.wipLimits || {}).forEach(([key, limit]) => {
+    if (!added.some((item) => itemMatchesWipKey(item, key))) return;
+
+    const count = all.filter((item) => itemMatchesWipKey(item, key)).length;
+    if (count > limit) violations.push({ label: key, count, limit });
+  });
+
+  return violations;
+}
+
+export function isWipBlocked(lane: Lane, items: Item[]) {
+  return lane.data.wipMode === 'hard' && getWipViolations(lane, items).length > 0;
+}
+
+// A lane whose card limit is already reached can't take new cards in hard-block mode
+export function isLaneWipFull(lane: Lane) {
+  return (
+    lane.data.wipMode === 'hard' &&
+    !!lane.data.maxItems &&
+    lane.children.length >= lane.data.maxItems
+  );
+}
+
+function describeWipViolations(violations: WipViolation[]) {
+  return violations.map(({ label, count, limit }) => `${label}: ${count}/${limit}`);
+}
+
+// Applies the lane's WIP mode to cards about to be added to it. Resolves to false when the
+// cards should not be added.
+export async function checkWipLimits(stateManager: StateManager, lane: Lane, items: Item[]) {
+  if (!lane.data.wipMode) return true;
+
+  const violations = getWipViolations(lane, items);
+  if (!violations.length) return true;
+
+  const details = describeWipViolations(violations);
+
+  switch (lane.data.wipMode) {
+    case 'hard':
+      new Notice(`${t('This list is at its WIP limit')}: ${details.join(', ')}`);
+      return false;
+    case 'soft':
+      return confirmAction(
+        stateManager.app,
+        t('Adding this card goes over the WIP limits of this list.'),
+        t('Add anyway'),
+        details
+      );
+    default:
+      new Notice(`${t('WIP limit exceeded')}: ${details.join(', ')}`);
+      return true;
+  }
+}
+
+const metadataSortRegEx = /^(.+)-(asc|desc)$/;
+
+function sortByTags(stateManager: StateManager, items: Item[], desc: boolean) {
+  const tagSortOrder = stateManager.getSetting('tag-sort');
+
+  return items.sort((a, b) => {
+    const tagsA = a.data.metadata.tags;
+    const tagsB = b.data.metadata.tags;
+
+    if (!tagsA?.length && !tagsB?.length) return 0;
+    if (!tagsA?.length) return 1;
+    if (!tagsB?.length) return -1;
+
+    const aSortOrder = tagSortOrder?.findIndex((sort) => tagsA.includes(sort.tag)) ?? -1;
+    const bSortOrder = tagSortOrder?.findIndex((sort) => tagsB.includes(sort.tag)) ?? -1;
+
+    if (aSortOrder > -1 && bSortOrder < 0) return desc ? 1 : -1;
+    if (bSortOrder > -1 && aSortOrder < 0) return desc ? -1 : 1;
+    if (aSortOrder > -1 && bSortOrder > -1) {
+      return desc ? bSortOrder - aSortOrder : aSortOrder - bSortOrder;
+    }
+
+    if (desc) return defaultSort(tagsB.join(''), tagsA.join(''));
+    return defaultSort(tagsA.join(''), tagsB.join(''));
+  });
+}
+
+function sortByMetadata(stateManager: StateManager, items: Item[], key: string, desc: boolean) {
+  return items.sort((a, b) => {
+    const valA = a.data.metadata.inlineMetadata?.find((m) => m.key === key);
+    const valB = b.data.metadata.inlineMetadata?.find((m) => m.key === key);
+
+    if (valA === undefined && valB === undefined) return 0;
+    if (valA === undefined) return 1;
+    if (valB === undefined) return -1;
+
+    if (desc) {
+      return defaultSort(
+        anyToString(valB.value, stateManager),
+        anyToString(valA.value, stateManager)
+      );
+    }
+    return defaultSort(
+      anyToString(valA.value, stateManager),
+      anyToString(valB.value, stateManager)
+    );
+  });
+}
+
+export function sortItems(stateManager: StateManager, items: Item[], sorted: LaneSort | string) {
+  const children = items.slice();
+
+  switch (sorted) {
+    case LaneSort.TitleAsc:
+    case LaneSort.TitleDsc:
+      return children.sort((a, b) => {
+        if (sorted === LaneSort.TitleDsc) {
+          return b.data.titleRaw.localeCompare(a.data.titleRaw);
+        }
+
+        return a.data.titleRaw.localeCompare(b.data.titleRaw);
+      });
+    case LaneSort.DateAsc:
+    case LaneSort.DateDsc: {
+      const mod = sorted === LaneSort.DateDsc ? -1 : 1;
+
+      return children.sort((a, b) => {
+        const aDate: moment.Moment | undefined = a.data.metadata.time || a.data.metadata.date;
+        const bDate: moment.Moment | undefined = b.data.metadata.time || b.data.metadata.date;
+
+        if (aDate && !bDate) return -1 * mod;
+        if (bDate && !aDate) return 1 * mod;
+        if (!aDate && !bDate) return 0;
+
+        return (aDate.isBefore(bDate) ? -1 : 1) * mod;
+      });
+    }
+    case LaneSort.TagsAsc:
+    case LaneSort.TagsDsc:
+      return sortByTags(stateManager, children, sorted === LaneSort.TagsDsc);
+  }
+
+  const match = typeof sorted === 'string' ? sorted.match(metadataSortRegEx) : null;
+  if (!match) return children;
+
+  return sortByMetadata(stateManager, children, match[1], match[2] === 'desc');
+}
+
+// Sorts a lane's cards and remembers the order, so sorting again can reverse it
+export function sortLane(stateManager: StateManager, lane: Lane, sorted: LaneSort | string) {
+  return update(lane, {
+    children: {
+      $set: sortItems(stateManager, lane.children, sorted),
+    },
+    data: {
+      sorted: {
+        $set: sorted,
+      },
+    },
+  });
+}
@@ -0,0 +1,81 @@
+import { App, ButtonComponent, Modal, TextComponent } from 'obsidian';
+import { t } from 'src/lang/helpers';
+
+import { c } from './helpers';
+
+// Resolves to the entered text, or null when the prompt is dismissed
+export function promptText(
+  app: App,
+  description: string,
+  confirmText: string,
+  initialValue: string = ''
+): Promise<string | null> {
+  return new Promise((resolve) => {
+    new PromptModal(app, description, confirmText, initialValue, resolve).open();
+  });
+}
+
+export class PromptModal extends Modal {
+  description: string;
+  confirmText: string;
+  value: string;
+  onResolve: (value: string | null) => void;
+  submitted: boolean = false;
+
+  constructor(
+    app: App,
+    description: string,
+    confirmText: string,
+    initialValue: string,
+    onResolve: (value: string | null) => void
+  ) {
+    super(app);
+    this.description = description;
+    this.confirmText = confirmText;
+    this.value = initialValue;
+    this.onResolve = onResolve;
+  }
+
+  submit() {
+    if (!this.value.trim()) return;
+
+    this.submitted = true;
+    this.close();
+  }
+
+  onOpen() {
+    const { contentEl, modalEl } = this;
+
+    modalEl.addClass(c('prompt-modal'));
+    contentEl.createEl('p', { text: this.description });
+
+    const input = new TextComponent(contentEl).setValue(this.value).onChange((value) => {
+      this.value = value;
+    });
+
+    input.inputEl.addClass(c('prompt-modal-input'));
+    input.inputEl.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.submit();
+      }
+    });
+
+    const buttons = contentEl.createDiv({ cls: 'modal-button-container' });
+
+    new ButtonComponent(buttons)
+      .setButtonText(this.confirmText)
+      .setCta()
+      .onClick(() => this.submit());
+
+    new ButtonComponent(buttons).setButtonText(t('Cancel')).onClick(() => this.close());
+
+    input.inputEl.focus();
+    input.inputEl.select();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.onResolve(this.submitted ? this.value.trim() : null);
+  }
+}
@@ -0,0 +1,176 @@
+import update from 'immutability-helper';
+import { moment } from 'obsidian';
+import { useEffect, useMemo } from 'preact/compat';
+import { StateManager } from 'src/StateManager';
+import { t } from 'src/lang/helpers';
+
+import { getLaneColor } from '../Lane/helpers';
+import { c } from '../helpers';
+import { Board } from '../types';
+import {
+  CumulativeFlow,
+  DurationPercentiles,
+  WeeklyThroughput,
+  getBoardReport,
+  hasSnapshots,
+  snapshotKey,
+} from './helpers';
+
+const chartWidth = 600;
+const chartHeight = 200;
+function CumulativeFlowChart({ flow }: { flow: CumulativeFlow }) {
+  const { dates, series } = flow;
+
+  // The last lane is drawn at the bottom of the stack, the way cumulative flow is usually read
+  const bands = useMemo(() => {
+    const totals = dates.map(() => 0);
+    const max = Math.max(
+      1,
+      ...dates.map((_, i) => series.reduce((total, { values }) => total + values[i], 0))
+    );
+    // A single day is stretched across the chart so it still shows as a band
+    const xs =
+      dates.length > 1
+        ? dates.map((_, i) => (i / (dates.length - 1)) * chartWidth)
+        : [0, chartWidth];
+    const getY = (values: number[], i: number) =>
+      chartHeight - (values[Math.min(i, dates.length - 1)] / max) * chartHeight;
+
+    return series
+      .map((lane, index) => ({ lane, index }))
+      .reverse()
+      .map(({ lane, index }) => {
+        const bottom = totals.slice();
+        lane.values.forEach((value, i) => (totals[i] += value));
+
+        const top = xs.map((x, i) => `${x},${getY(totals, i)}`);
+        const base = xs.map((x, i) => `${x},${getY(bottom, i)}`).reverse();
+
+        return { lane: lane.lane, color: getLaneColor(index), points: top.concat(base).join(' ') };
+      });
+  }, [dates, series]);
+
+  if (!dates.length || !series.length) {
+    return <div className={c('report-empty')}>{t('Not enough data yet')}</div>;
+  }
+
+  return (
+    <>
+      <svg
+        className={c('report-chart')}
+        viewBox={`0 0 ${chartWidth} ${chartHeight}`}
+        preserveAspectRatio="none"
+      >
+        {bands.map(({ lane, color, points }) => (
+          <polygon key={lane} points={points} fill={color}>
+            <title>{lane}</title>
+          </polygon>
+        ))}
+      </svg>
+      <div className={c('report-axis')}>
+        <span>{moment(dates[0]).format('ll')}</span>
+        <span>{moment(dates[dates.length - 1]).format('ll')}</span>
+      </div>
+      <div className={c('report-legend')}>
+        {series.map(({ lane }, index) => (
+          <span key={lane} className={c('report-legend-item')}>
+            <span
+              className={c('report-legend-swatch')}
+              style={{ backgroundColor: getLaneColor(index) }}
+            />
+            {lane}
+          </span>
+        ))}
+      </div>
+    </>
+  );
+}
+
+function ThroughputChart({ throughput }: { throughput: WeeklyThroughput[] }) {
+  const max = Math.max(1, ...throughput.map(({ count }) => count));
+
+  if (throughput.every(({ count }) => count === 0)) {
+    return <div className={c('report-empty')}>{t('No cards completed in this period')}</div>;
+  }
+
+  return (
+    <div className={c('report-bars')}>
+      {throughput.map(({ week, count }) => (
+        <div key={week.valueOf()} className={c('report-bar-wrapper')}>
+          <div className={c('report-bar-count')}>{count}</div>
+          <div className={c('report-bar')} style={{ height: `${(count / max) * 100}%` }} />
+          <div className={c('report-bar-label')}>{week.format('MMM D')}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatDays(days?: number) {
+  return days === undefined ? '—' : `${days} ${t('days')}`;
+}
+
+function PercentileRow({ label, data }: { label: string; data: DurationPercentiles }) {
+  return (
+    <tr>
+      <td>{label}</td>
+      <td>{formatDays(data.p50)}</td>
+      <td>{formatDays(data.p85)}</td>
+      <td>{formatDays(data.p95)}</td>
+      <td>{data.count}</td>
+    </tr>
+  );
+}
+
+export function ReportView({
+  boardData,
+  stateManager,
+}: {
+  boardData: Board;
+  stateManager: StateManager;
+}) {
+  const report = useMemo(
+    () => getBoardReport(stateManager, boardData),
+    [stateManager, boardData]
+  );
+
+  // Opening the report is what starts the daily lane snapshots for this board
+  useEffect(() => {
+    if (hasSnapshots(boardData)) return;
+
+    stateManager.setState((board) =>
+      update(board, { data: { frontmatter: { [snapshotKey]: { $set: [] } } } })
+    );
+  }, [boardData]);
+
+  return (
+    <div className={`markdown-rendered ${c('report')}`}>
+      <section className={c('report-section')}>
+        <h3>{t('Cumulative flow')}</h3>
+        <CumulativeFlowChart flow={report.flow} />
+      </section>
+      <section className={c('report-section')}>
+        <h3>{t('Weekly throughput')}</h3>
+        <ThroughputChart throughput={report.throughput} />
+      </section>
+      <section className={c('report-section')}>
+        <h3>{t('Lead and cycle time')}</h3>
+        <table>
+          <thead>
+            <tr>
+              <th />
+              <th>{t('50th percentile')}</th>
+              <th>{t('85th percentile')}</th>
+              <th>{t('95th percentile')}</th>
+              <th>{t('Cards')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            <PercentileRow label={t('Lead time')} data={report.leadTime} />
+            <PercentileRow label={t('Cycle time')} data={report.cycleTime} />
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import update from 'immutability-helper';
+import { moment } from 'obsidian';
+import { StateManager } from 'src/StateManager';
+import { FolderFormat } from 'src/parsers/FolderFormat';
+
+import { getItemLaneEntered } from '../helpers';
+import { Board, Item } from '../types';
+
+export const snapshotKey = 'kanban-snapshots';
+
+const snapshotDateFormat = 'YYYY-MM-DD';
+const maxSnapshots = 365;
+const throughputWeeks = 12;
+
+const doneDateRegEx = /(?:✅ *|\[completion:: *)(\d{4}-\d{2}-\d{2})/u;
+const createdDateRegEx = /(?:➕ *|\[created:: *)(\d{4}-\d{2}-\d{2})/u;
+const startDateRegEx = /(?:🛫 *|\[start:: *)(\d{4}-\d{2}-\d{2})/u;
+
+export interface LaneSnapshot {
+  date: string;
+  counts: Record<string, number>;
+}
+
+export interface FlowSeries {
+  lane: string;
+  values: number[];
+}
+
+export interface CumulativeFlow {
+  dates: string[];
+  series: FlowSeries[];
+}
+
+export interface WeeklyThroughput {
+  week: moment.Moment;
+  count: number;
+}
+
+export interface DurationPercentiles {
+  count: number;
+  p50?: number;
+  p85?: number;
+  p95?: number;
+}
+
+export interface BoardReport {
+  flow: CumulativeFlow;
+  throughput: WeeklyThroughput[];
+  leadTime: DurationPercentiles;
+  cycleTime: DurationPercentiles;
+}
+
+interface CardHistory {
+  created?: moment.Moment;
+  started?: moment.Moment;
+  done?: moment.Moment;
+}
+
+// Snapshots are stored in the board's frontmatter as `YYYY-MM-DD|Lane=count|Lane=count` strings
+export function parseSnapshots(board: Board): LaneSnapshot[] {
+  const raw = board.data.frontmatter?.[snapshotKey];
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .reduce<LaneSnapshot[]>((snapshots, entry) => {
+      const [date, ...lanes] = String(entry).split('|');
+      if (!moment(date, snapshotDateFormat, true).isValid()) return snapshots;
+
+      const counts: Record<string, number> = {};
+
+      lanes.forEach((lane) => {
+        const sep = lane.lastIndexOf('=');
+        if (sep <= 0) return;
+
+        const count = parseInt(lane.slice(sep + 1));
+        if (!isNaN(count)) counts[lane.slice(0, sep)] = count;
+      });
+
+      snapshots.push({ date, counts });
+      return snapshots;
+    }, [])
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function snapshotToString({ date, counts }: LaneSnapshot) {
+  return [date, ...Object.keys(counts).map((lane) => `${lane}=${counts[lane]}`)].join('|');
+}
+
+function getLaneTitle(title: string) {
+  return title.replace(/\|/g, '/');
+}
+
+function getLaneCounts(board: Board) {
+  const counts: Record<string, number> = {};
+
+  board.children.forEach((lane) => {
+    const title = getLaneTitle(lane.data.title);
+    counts[title] = (counts[title] || 0) + lane.children.length;
+  });
+
+  return counts;
+}
+
+function countsMatch(a: Record<string, number>, b: Record<string, number>) {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
+
+// Boards start keeping snapshots once their report has been opened. Only today's entry is
+// rewritten, and nothing is written while the lane counts stay the same.
+export function recordLaneSnapshot(board: Board): Board {
+  const raw = board?.data.frontmatter?.[snapshotKey];
+  if (!Array.isArray(raw)) return board;
+
+  const snapshots = parseSnapshots(board);
+  const latest = snapshots[snapshots.length - 1];
+  const today: LaneSnapshot = {
+    date: moment().format(snapshotDateFormat),
+    counts: getLaneCounts(board),
+  };
+
+  if (latest && countsMatch(latest.counts, today.counts)) return board;
+  if (latest?.date === today.date) snapshots.pop();
+
+  snapshots.push(today);
+
+  return update(board, {
+    data: {
+      frontmatter: {
+        [snapshotKey]: {
+          $set: snapshots.slice(-maxSnapshots).map(snapshotToString),
+        },
+      },
+    },
+  });
+}
+
+export function hasSnapshots(board: Board) {
+  return Array.isArray(board.data.frontmatter?.[snapshotKey]);
+}
+
+function getCumulativeFlow(board: Board): CumulativeFlow {
+  const snapshots = parseSnapshots(board);
+  const today = moment().format(snapshotDateFormat);
+
+  if (!snapshots.length || snapshots[snapshots.length - 1].date !== today) {
+    snapshots.push({ date: today, counts: getLaneCounts(board) });
+  }
+
+  const dates: string[] = [];
+  const daily: Array<Record<string, number>> = [];
+  const cursor = moment(snapshots[0].date, snapshotDateFormat);
+  let index = 0;
+
+  // Days without a snapshot carry the previous day's counts forward
+  while (cursor.format(snapshotDateFormat) <= today) {
+    const date = cursor.format(snapshotDateFormat);
+
+    while (index + 1 < snapshots.length && snapshots[index + 1].date <= date) index++;
+
+    dates.push(date);
+    daily.push(snapshots[index].counts);
+    cursor.add(1, 'day');
+  }
+
+  const series = board.children.map((lane) => {
+    const title = getLaneTitle(lane.data.title);
+    return { lane: lane.data.title, values: daily.map((counts) => counts[title] || 0) };
+  });
+
+  return { dates, series };
+}
+
+function getDate(str: string | undefined, format?: string) {
+  if (!str) return undefined;
+
+  const date = format ? moment(str, format, true) : moment(str);
+  return date.isValid() ? date : undefined;
+}
+
+// Archived cards carry the date they were archived at the start or end of their title
+export function getArchiveDate(stateManager: StateManager, item: Item) {
+  if (item.data.metadata.archived_at) return getDate(item.data.metadata.archived_at);
+
+  const format = stateManager.getSetting('archive-date-format');
+  const length = moment().format(format).length;
+  const title = item.data.titleRaw.trim();
+  const dateStr = stateManager.getSetting('append-archive-date')
+    ? title.slice(-length)
+    : title.slice(0, length);
+
+  return getDate(dateStr, format);
+}
+
+// The card's title without the date and separator that archiving with a date added to it
+export function removeArchiveDate(stateManager: StateManager, titleRaw: string) {
+  const format = stateManager.getSetting('archive-date-format');
+  const separator = stateManager.getSetting('archive-date-separator');
+  const length = moment().format(format).length;
+  const title = titleRaw.trim();
+
+  if (stateManager.getSetting('append-archive-date')) {
+    if (!getDate(title.slice(-length), format)) return titleRaw;
+
+    const rest = title.slice(0, -length).replace(/\s+$/, '');
+    return separator && rest.endsWith(separator)
+      ? rest.slice(0, -separator.length).replace(/\s+$/, '')
+      : rest;
+  }
+
+  if (!getDate(title.slice(0, length), format)) return titleRaw;
+
+  const rest = title.slice(length).replace(/^\s+/, '');
+  return separator && rest.startsWith(separator)
+    ? rest.slice(separator.length).replace(/^\s+/, '')
+    : rest;
+}
+
+function getCardHistory(
+  stateManager: StateManager,
+  item: Item,
+  isArchived: boolean,
+  isInDoneLane: boolean
+): CardHistory {
+  const { titleRaw, metadata } = item.data;
+  const history = metadata.lane_history || [];
+
+  let done = getDate(titleRaw.match(doneDateRegEx)?.[1]);
+  if (!done && isArchived) done = getArchiveDate(stateManager, item);
+  if (!done && isInDoneLane) done = getItemLaneEntered(item) ?? undefined;
+
+  let created = getDate(titleRaw.match(createdDateRegEx)?.[1]) ?? getDate(history[0]?.entered);
+
+  // Cards on folder boards are files of their own, so their creation time is the card's
+  if (!created && stateManager.parser instanceof FolderFormat && metadata.file?.stat) {
+    created = moment(metadata.file.stat.ctime);
+  }
+
+  const started = getDate(titleRaw.match(startDateRegEx)?.[1]) ?? getDate(history[1]?.entered);
+
+  return { created, started, done };
+}
+
+function getThroughput(histories: CardHistory[]): WeeklyThroughput[] {
+  const thisWeek = moment().startOf('week');
+  const weeks: WeeklyThroughput[] = [];
+
+  for (let i = throughputWeeks - 1; i >= 0; i--) {
+    weeks.push({ week: thisWeek.clone().subtract(i, 'weeks'), count: 0 });
+  }
+
+  histories.forEach(({ done }) => {
+    if (!done) return;
+
+    const week = weeks.find(({ week }) => done.isSame(week, 'week'));
+    if (week) week.count++;
+  });
+
+  return weeks;
+}
+
+function getPercentile(sorted: number[], percentile: number) {
+  const rank = Math.ceil((percentile / 100) * sorted.length) - 1;
+  return Math.round(sorted[Math.max(rank, 0)] * 10) / 10;
+}
+
+function getPercentiles(durations: number[]): DurationPercentiles {
+  if (!durations.length) return { count: 0 };
+
+  const sorted = [...durations].sort((a, b) => a - b);
+
+  return {
+    count: sorted.length,
+    p50: getPercentile(sorted, 50),
+    p85: getPercentile(sorted, 85),
+    p95: getPercentile(sorted, 95),
+  };
+}
+
+function getDurations(histories: CardHistory[], from: keyof CardHistory) {
+  return histories.reduce<number[]>((durations, history) => {
+    const start = history[from];
+    if (!start || !history.done) return durations;
+
+    const days = history.done.diff(start, 'days', true);
+    if (days >= 0) durations.push(days);
+
+    return durations;
+  }, []);
+}
+
+// Builds the report from the board's own data: done dates, archive dates, lane history and
+// the daily lane snapshots
+export function getBoardReport(stateManager: StateManager, board: Board): BoardReport {
+  const histories: CardHistory[] = [];
+
+  board.children.forEach((lane) => {
+    lane.children.forEach((item) => {
+      histories.push(
+        getCardHistory(stateManager, item, false, !!lane.data.shouldMarkItemsComplete)
+      );
+    });
+  });
+
+  (board.data.archive ?? []).forEach((item) => {
+    histories.push(getCardHistory(stateManager, item, true, false));
+  });
+
+  return {
+    flow: getCumulativeFlow(board),
+    throughput: getThroughput(histories),
+    leadTime: getPercentiles(getDurations(histories, 'created')),
+    cycleTime: getPercentiles(getDurations(histories, 'started')),
+  };
+}
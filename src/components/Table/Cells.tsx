@@ -1,19 +1,31 @@
 import classcat from 'classcat';
 import { Menu } from 'obsidian';
-import { JSX, memo, useCallback, useContext, useState } from 'preact/compat';
+import { ComponentChildren } from 'preact';
+import { JSX, memo, useCallback, useContext, useEffect, useRef, useState } from 'preact/compat';
 import isEqual from 'react-fast-compare';
 import { ExplicitPathContext } from 'src/dnd/components/context';
 import { moveEntity } from 'src/dnd/util/data';
+import { stampLaneEntry } from 'src/helpers/boardModifiers';
+import { t } from 'src/lang/helpers';
+import { Priority, priorityToIcon } from 'src/parsers/helpers/inlineMetadata';
 
 import { Icon } from '../Icon/Icon';
 import { DateAndTime, RelativeDate } from '../Item/DateAndTime';
 import { ItemCheckbox } from '../Item/ItemCheckbox';
 import { ItemContent, useDatePickers } from '../Item/ItemContent';
 import { useItemMenu } from '../Item/ItemMenu';
+import { useSelectionMenu } from '../Item/SelectionMenu';
 import { MarkdownRenderer } from '../MarkdownRenderer/MarkdownRenderer';
 import { KanbanContext, SearchContext } from '../context';
 import { c, useGetDateColorFn } from '../helpers';
 import { EditState, Item, Lane, isEditing } from '../types';
+import {
+  FieldEditor,
+  MetadataSource,
+  canEditMetadata,
+  setMetadataValue,
+  toEditorValue,
+} from './editing';
 import { TableItem } from './types';
 
 export const DateCell = memo(function DateCell({
@@ -62,6 +74,7 @@ export const ItemCell = memo(
       stateManager,
       path,
     });
+    const showSelectionMenu = useSelectionMenu();
 
     const onContextMenu: JSX.MouseEventHandler<HTMLDivElement> = useCallback(
       (e) => {
@@ -73,9 +86,10 @@ export const ItemCell = memo(
           return;
         }
 
+        if (showSelectionMenu(e, item)) return;
         showItemMenu(e);
       },
-      [showItemMenu, editState]
+      [showItemMenu, showSelectionMenu, item, editState]
     );
 
     const onDoubleClick: JSX.MouseEventHandler<HTMLDivElement> = useCallback((e) => {
@@ -103,7 +117,7 @@ export const ItemCell = memo(
               item={item}
               setEditState={setEditState}
               showMetadata={false}
-              searchQuery={search?.query}
+              searchQuery={search?.highlight}
               isStatic={false}
             />
           </div>
@@ -125,7 +139,7 @@ export const LaneCell = memo(function LaneCell({ lane, path }: { lane: Lane; pat
   const search = useContext(SearchContext);
   return (
     <div className={c('cell-flex-wrapper')}>
-      <MarkdownRenderer searchQuery={search?.query} markdownString={lane.data.title} />
+      <MarkdownRenderer searchQuery={search?.highlight} markdownString={lane.data.title} />
       <div
         onClick={(e) => {
           const menu = new Menu();
@@ -141,7 +155,9 @@ export const LaneCell = memo(function LaneCell({ lane, path }: { lane: Lane; pat
                   if (lane === l) return;
                   stateManager.setState((boardData) => {
                     const target = boardData.children[i];
-                    return moveEntity(boardData, path, [i, target.children.length]);
+                    return moveEntity(boardData, path, [i, target.children.length], (entity) =>
+                      stampLaneEntry(stateManager, entity as Item, target)
+                    );
                   });
                 })
             );
@@ -156,3 +172,138 @@ export const LaneCell = memo(function LaneCell({ lane, path }: { lane: Lane; pat
     </div>
   );
 });
+
+function MetadataEditor({
+  editor,
+  initialValue,
+  onSubmit,
+  onCancel,
+}: {
+  editor: FieldEditor;
+  initialValue: string;
+  onSubmit: (value: string) => void;
+  onCancel: () => void;
+}) {
+  const inputRef = useRef<HTMLInputElement & HTMLSelectElement>();
+  const isCancelled = useRef(false);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      inputRef.current.blur();
+    } else if (e.key === 'Escape') {
+      // Keep the board from also clearing its selection
+      e.stopPropagation();
+      isCancelled.current = true;
+      onCancel();
+    }
+  };
+
+  if (editor === 'priority') {
+    const priorities: [Priority, string][] = [
+      [Priority.Highest, t('Highest')],
+      [Priority.High, t('High')],
+      [Priority.Medium, t('Medium')],
+      [Priority.Low, t('Low')],
+      [Priority.Lowest, t('Lowest')],
+    ];
+
+    return (
+      <select
+        ref={inputRef}
+        className={`dropdown ${c('table-cell-input')}`}
+        value={initialValue}
+        onChange={(e) => onSubmit(e.currentTarget.value)}
+        onBlur={onCancel}
+        onKeyDown={onKeyDown}
+      >
+        <option value="">{t('None')}</option>
+        {priorities.map(([priority, label]) => (
+          <option key={priority} value={priority}>
+            {`${priorityToIcon(priority)} ${label}`}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      ref={inputRef}
+      className={c('table-cell-input')}
+      type={editor === 'date' ? 'date' : editor === 'number' ? 'number' : 'text'}
+      step={editor === 'number' ? 'any' : undefined}
+      defaultValue={initialValue}
+      onKeyDown={onKeyDown}
+      onBlur={(e) => {
+        if (!isCancelled.current) onSubmit(e.currentTarget.value);
+      }}
+    />
+  );
+}
+
+// Metadata cells are edited in place with a double click, and boolean fields with a checkbox
+export function MetadataCell({
+  row,
+  source,
+  field,
+  editor,
+  value,
+  children,
+}: {
+  row: TableItem;
+  source: MetadataSource;
+  field: string;
+  editor: FieldEditor;
+  value: any;
+  children?: ComponentChildren;
+}) {
+  const { view, stateManager, boardModifiers } = useContext(KanbanContext);
+  const [isEditingCell, setIsEditingCell] = useState(false);
+
+  if (!canEditMetadata(row, source, field)) return <>{children}</>;
+
+  const initialValue = toEditorValue(view, stateManager, editor, value);
+  const save = (str: string) => {
+    setIsEditingCell(false);
+    if (str.trim() === initialValue) return;
+    setMetadataValue(stateManager, boardModifiers, row, source, field, editor, str);
+  };
+
+  if (editor === 'boolean') {
+    const checked = initialValue === 'true';
+    return (
+      <input
+        type="checkbox"
+        className="task-list-item-checkbox"
+        checked={checked}
+        onChange={() => save(String(!checked))}
+      />
+    );
+  }
+
+  if (isEditingCell) {
+    return (
+      <MetadataEditor
+        editor={editor}
+        initialValue={initialValue}
+        onSubmit={save}
+        onCancel={() => setIsEditingCell(false)}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={c('table-editable-cell')}
+      // eslint-disable-next-line react/no-unknown-property
+      onDblClick={() => setIsEditingCell(true)}
+    >
+      {children}
+    </div>
+  );
+}
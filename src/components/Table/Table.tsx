@@ -1,4 +1,5 @@
 import {
+  Row,
   flexRender,
   getCoreRowModel,
   getFilteredRowModel,
@@ -7,15 +8,18 @@ import {
 } from '@tanstack/react-table';
 import classcat from 'classcat';
 import update from 'immutability-helper';
-import { useEffect, useMemo, useRef } from 'preact/compat';
+import { Fragment, JSX, useContext, useEffect, useMemo, useRef, useState } from 'preact/compat';
 import { IntersectionObserverHandler } from 'src/dnd/managers/ScrollManager';
+import { t } from 'src/lang/helpers';
 
 import { StateManager } from '../../StateManager';
 import { Icon } from '../Icon/Icon';
-import { IntersectionObserverContext } from '../context';
-import { c } from '../helpers';
+import { IntersectionObserverContext, SelectionContext } from '../context';
+import { c, canSelectItem } from '../helpers';
 import { Board } from '../types';
-import { fuzzyAnyFilter, useTableColumns } from './helpers';
+import { getTableGroups } from './grouping';
+import { searchFilter, useTableColumns } from './helpers';
+import { TableGroup, TableItem } from './types';
 
 function useIntersectionObserver() {
   const observerRef = useRef<IntersectionObserver>();
@@ -92,12 +96,18 @@ export function TableView({
   stateManager: StateManager;
 }) {
   const { bindObserver, context } = useIntersectionObserver();
-  const { data, columns, state, setSorting } = useTableColumns(boardData, stateManager);
+  const selection = useContext(SelectionContext);
+  const { data, columns, state, setSorting, fields, metadataLabels } = useTableColumns(
+    boardData,
+    stateManager
+  );
+  const groupBy = stateManager.useSetting('table-group');
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
   const table = useReactTable({
     data,
     columns,
     state,
-    globalFilterFn: fuzzyAnyFilter,
+    globalFilterFn: searchFilter,
     getColumnCanGlobalFilter: () => true,
     enableColumnResizing: true,
     columnResizeMode: 'onChange',
@@ -134,6 +144,111 @@ export function TableView({
     }, 500);
   }, [tableState.columnSizing]);
 
+  const rows = table.getRowModel().rows;
+  const groups = useMemo(
+    () => (groupBy ? getTableGroups(stateManager, rows, groupBy, fields) : null),
+    [rows, groupBy, fields]
+  );
+
+  // The rows in the order they're shown, leaving out those in collapsed groups
+  const shownRows = useMemo(() => {
+    if (!groups) return rows;
+    return groups.reduce<Row<TableItem>[]>(
+      (acc, group) => (collapsedGroups.has(group.id) ? acc : acc.concat(group.rows)),
+      []
+    );
+  }, [rows, groups, collapsedGroups]);
+
+  const setGroupBy = (value: string) => {
+    stateManager.setState((board) =>
+      update(board, {
+        data: { settings: { 'table-group': { $set: value || undefined } } },
+      })
+    );
+  };
+
+  const toggleGroup = (id: string) => {
+    setCollapsedGroups((collapsed) => {
+      const next = new Set(collapsed);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Rows are selected like cards on the board, with ranges following the table's sort order
+  const onRowClick = (e: JSX.TargetedMouseEvent<HTMLElement>, row: TableItem) => {
+    if (!selection || !canSelectItem(row.item)) return;
+    if (!e.shiftKey && !e.ctrlKey && !e.metaKey) return;
+
+    e.preventDefault();
+    selection.select(
+      row.item,
+      e.shiftKey ? 'range' : 'toggle',
+      shownRows.map((r) => r.original.item)
+    );
+  };
+
+  const renderRow = (row: Row<TableItem>) => (
+    <tr
+      key={row.id}
+      onClick={(e) => onRowClick(e, row.original)}
+      className={classcat({
+        'is-selected': selection?.selected.has(row.original.item.id),
+      })}
+    >
+      {row.getVisibleCells().map((cell) => {
+        return (
+          <td
+            key={cell.id}
+            className={classcat({
+              'mod-has-icon': cell.column.id === 'lane',
+              'mod-search-match': row.columnFiltersMeta[cell.column.id]
+                ? (row.columnFiltersMeta[cell.column.id] as any).itemRank.passed
+                : false,
+            })}
+          >
+            <div
+              className={c('table-cell-wrapper')}
+              style={{
+                width: cell.column.getSize(),
+              }}
+            >
+              {flexRender(cell.column.columnDef.cell, cell.getContext())}
+            </div>
+          </td>
+        );
+      })}
+    </tr>
+  );
+
+  // Group headers show the group's card count, and totals under numeric metadata columns
+  const renderGroupHeader = (group: TableGroup) => {
+    const isCollapsed = collapsedGroups.has(group.id);
+
+    return (
+      <tr className={c('table-group-header')} onClick={() => toggleGroup(group.id)}>
+        {table.getVisibleLeafColumns().map((column, i) => (
+          <td key={column.id}>
+            <div className={c('table-cell-wrapper')} style={{ width: column.getSize() }}>
+              {i === 0 ? (
+                <div className={c('table-group-title')}>
+                  <Icon name={isCollapsed ? 'lucide-chevron-right' : 'lucide-chevron-down'} />
+                  <span>{group.label}</span>
+                  <span className={c('table-group-count')}>{group.rows.length}</span>
+                </div>
+              ) : group.sums.has(column.id) ? (
+                <span className={c('table-group-sum')}>
+                  {`Σ ${group.sums.get(column.id).toLocaleString()}`}
+                </span>
+              ) : null}
+            </div>
+          </td>
+        ))}
+      </tr>
+    );
+  };
+
   const tableWidth = table.getCenterTotalSize();
   const tableStyle = useMemo(() => {
     return {
@@ -144,6 +259,24 @@ export function TableView({
   return (
     <div className={`markdown-rendered ${c('table-wrapper')}`} ref={bindObserver}>
       <IntersectionObserverContext.Provider value={context}>
+        <div className={c('table-toolbar')}>
+          <span>{t('Group by')}</span>
+          <select
+            className="dropdown"
+            value={groupBy || ''}
+            onChange={(e) => setGroupBy((e.target as HTMLSelectElement).value)}
+          >
+            <option value="">{t('None')}</option>
+            <option value="lane">{t('List')}</option>
+            <option value="tags">{t('Tags')}</option>
+            <option value="date">{t('Date')}</option>
+            {fields.map((key) => (
+              <option key={key} value={key}>
+                {metadataLabels.get(key) ?? key}
+              </option>
+            ))}
+          </select>
+        </div>
         <table style={tableStyle}>
           <thead>
             {table.getHeaderGroups().map((headerGroup) => (
@@ -195,32 +328,14 @@ export function TableView({
             ))}
           </thead>
           <tbody>
-            {table.getRowModel().rows.map((row) => (
-              <tr key={row.id}>
-                {row.getVisibleCells().map((cell) => {
-                  return (
-                    <td
-                      key={cell.id}
-                      className={classcat({
-                        'mod-has-icon': cell.column.id === 'lane',
-                        'mod-search-match': row.columnFiltersMeta[cell.column.id]
-                          ? (row.columnFiltersMeta[cell.column.id] as any).itemRank.passed
-                          : false,
-                      })}
-                    >
-                      <div
-                        className={c('table-cell-wrapper')}
-                        style={{
-                          width: cell.column.getSize(),
-                        }}
-                      >
-                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                      </div>
-                    </td>
-                  );
-                })}
-              </tr>
-            ))}
+            {groups
+              ? groups.map((group) => (
+                  <Fragment key={group.id}>
+                    {renderGroupHeader(group)}
+                    {!collapsedGroups.has(group.id) && group.rows.map(renderRow)}
+                  </Fragment>
+                ))
+              : rows.map(renderRow)}
           </tbody>
         </table>
       </IntersectionObserverContext.Provider>
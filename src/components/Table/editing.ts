@@ -0,0 +1,149 @@
+import { TFile } from 'obsidian';
+import { KanbanView } from 'src/KanbanView';
+import { StateManager } from 'src/StateManager';
+import { BoardModifiers } from 'src/helpers/boardModifiers';
+import { Priority, setInlineField } from 'src/parsers/helpers/inlineMetadata';
+
+import { anyToString, getDate, getLinkFromObj } from '../Item/MetadataTable';
+import { getNumericValue } from './grouping';
+import { TableItem } from './types';
+
+export type MetadataSource = 'inline' | 'file';
+
+export type FieldEditor = 'text' | 'number' | 'date' | 'list' | 'boolean' | 'priority';
+
+const taskDateFields = new Set(['start', 'created', 'scheduled', 'due', 'completion', 'cancelled']);
+const editorDateFormat = 'YYYY-MM-DD';
+
+function isEmpty(value: any) {
+  return (
+    value === null ||
+    value === undefined ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function getValueEditor(value: any): FieldEditor {
+  if (Array.isArray(value)) return 'list';
+  if (typeof value === 'boolean' || value === 'true' || value === 'false') return 'boolean';
+  if (getNumericValue(value) !== null) return 'number';
+  if (getDate(value)) return 'date';
+  return 'text';
+}
+
+// A column uses the same editor for all its cells, picked from the first value it has
+export function getFieldEditor(source: MetadataSource, key: string, values: any[]): FieldEditor {
+  if (source === 'inline' && key === 'priority') return 'priority';
+  if (source === 'inline' && taskDateFields.has(key)) return 'date';
+
+  const value = values.find((v) => !isEmpty(v));
+  return value === undefined ? 'text' : getValueEditor(value);
+}
+
+// Cards from query lists can't be changed, and a linked note's tags are merged from its
+// frontmatter and body, so they're left read-only
+export function canEditMetadata(row: TableItem, source: MetadataSource, key: string) {
+  const { metadata } = row.item.data;
+
+  if (source === 'inline') return !metadata.querySource;
+  return key !== 'tags' && metadata.file instanceof TFile;
+}
+
+function splitList(str: string) {
+  return str
+    .split(',')
+    .map((v) => v.trim())
+    .filter((v) => !!v);
+}
+
+function valueToString(view: KanbanView, stateManager: StateManager, value: any) {
+  return getLinkFromObj(value, view) ?? anyToString(value, stateManager);
+}
+
+function toPriority(value: any) {
+  const str = String(value).toLocaleLowerCase();
+  const name = Object.keys(Priority).find(
+    (k) => k.toLocaleLowerCase() === str || Priority[k as keyof typeof Priority] === str
+  );
+
+  return name && name !== 'None' ? Priority[name as keyof typeof Priority] : '';
+}
+
+export function toEditorValue(
+  view: KanbanView,
+  stateManager: StateManager,
+  editor: FieldEditor,
+  value: any
+): string {
+  if (isEmpty(value)) return '';
+
+  switch (editor) {
+    case 'date':
+      return getDate(value)?.format(editorDateFormat) ?? valueToString(view, stateManager, value);
+    case 'priority':
+      return toPriority(value);
+    case 'boolean':
+      return String(value === true || value === 'true');
+    case 'list':
+      return (Array.isArray(value) ? value : [value])
+        .map((v) => valueToString(view, stateManager, v))
+        .join(', ');
+  }
+
+  return valueToString(view, stateManager, value);
+}
+
+function fromEditorValue(editor: FieldEditor, str: string) {
+  switch (editor) {
+    case 'number':
+      return getNumericValue(str) ?? str;
+    case 'boolean':
+      return str === 'true';
+    case 'list':
+      return splitList(str);
+  }
+
+  return str;
+}
+
+// Inline fields are rewritten in the card's markdown, while file metadata goes to the linked
+// note's frontmatter. An empty value removes the field.
+export function setMetadataValue(
+  stateManager: StateManager,
+  boardModifiers: BoardModifiers,
+  row: TableItem,
+  source: MetadataSource,
+  key: string,
+  editor: FieldEditor,
+  value: string
+) {
+  const str = value.trim();
+
+  if (source === 'inline') {
+    const { item, path } = row;
+    const titleRaw = setInlineField(
+      item.data.titleRaw,
+      key,
+      editor === 'list' ? splitList(str).join(', ') : str
+    );
+
+    if (titleRaw !== item.data.titleRaw) {
+      boardModifiers.updateItem(path, stateManager.updateItemContent(item, titleRaw));
+    }
+    return;
+  }
+
+  const file = row.item.data.metadata.file;
+  if (!(file instanceof TFile)) return;
+
+  stateManager.app.fileManager
+    .processFrontMatter(file, (frontmatter) => {
+      const lowerKey = key.toLocaleLowerCase();
+      const existing = Object.keys(frontmatter).find((k) => k.toLocaleLowerCase() === lowerKey);
+
+      if (!str) delete frontmatter[existing ?? key];
+      else frontmatter[existing ?? key] = fromEditorValue(editor, str);
+    })
+    .catch((e) => console.error(e));
+}
@@ -0,0 +1,117 @@
+import { Row } from '@tanstack/react-table';
+import { moment } from 'obsidian';
+import { StateManager } from 'src/StateManager';
+import { getFieldValues } from 'src/helpers/search';
+import { defaultSort } from 'src/helpers/util';
+import { t } from 'src/lang/helpers';
+
+import { anyToString } from '../Item/MetadataTable';
+import { Item } from '../types';
+import { TableGroup, TableItem } from './types';
+
+interface GroupKey {
+  id: string;
+  label: string;
+  order: number;
+}
+
+const numberRegEx = /^-?\d+(?:\.\d+)?$/;
+const lastOrder = Number.MAX_SAFE_INTEGER;
+
+function getDateGroup(item: Item): GroupKey {
+  const date = item.data.metadata.date;
+
+  if (!date) return { id: 'date:none', label: t('No date'), order: lastOrder };
+  if (date.isBefore(moment().startOf('day'))) {
+    return { id: 'date:overdue', label: t('Overdue'), order: 0 };
+  }
+  if (date.isSameOrBefore(moment().endOf('week'))) {
+    return { id: 'date:week', label: t('This week'), order: 1 };
+  }
+
+  return { id: 'date:later', label: t('Later'), order: 2 };
+}
+
+function getTagGroups(stateManager: StateManager, item: Item): GroupKey[] {
+  const tags = item.data.metadata.tags;
+  if (!tags?.length) return [{ id: 'tag:none', label: t('No tags'), order: lastOrder }];
+
+  const tagSort = stateManager.getSetting('tag-sort') || [];
+
+  return tags.map((tag) => {
+    const index = tagSort.findIndex((sort) => sort.tag === tag);
+    return { id: `tag:${tag}`, label: tag, order: index > -1 ? index : tagSort.length };
+  });
+}
+
+function getFieldGroups(stateManager: StateManager, item: Item, key: string): GroupKey[] {
+  const labels = new Set<string>();
+
+  getFieldValues(item, key.toLocaleLowerCase()).forEach((value) => {
+    (Array.isArray(value) ? value : [value]).forEach((v) => {
+      const label = anyToString(v, stateManager).trim();
+      if (label) labels.add(label);
+    });
+  });
+
+  if (!labels.size) return [{ id: 'field:none', label: t('None'), order: lastOrder }];
+
+  return Array.from(labels).map((label) => ({ id: `field:${label}`, label, order: 0 }));
+}
+
+// Cards with several tags or field values are listed under each of them
+function getRowGroups(stateManager: StateManager, row: Row<TableItem>, groupBy: string) {
+  const { item, lane, path } = row.original;
+
+  switch (groupBy) {
+    case 'lane':
+      return [{ id: `lane:${lane.id}`, label: lane.data.title, order: path[0] }];
+    case 'tags':
+      return getTagGroups(stateManager, item);
+    case 'date':
+      return [getDateGroup(item)];
+  }
+
+  return getFieldGroups(stateManager, item, groupBy);
+}
+
+export function getNumericValue(value: any) {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && numberRegEx.test(value.trim())) return parseFloat(value);
+  return null;
+}
+
+// Groups the table's rows by list, tag, date bucket or a metadata field. Numeric values of the
+// given fields are added up per group.
+export function getTableGroups(
+  stateManager: StateManager,
+  rows: Row<TableItem>[],
+  groupBy: string,
+  sumKeys: string[]
+): TableGroup[] {
+  const groups = new Map<string, TableGroup>();
+  const orders = new Map<string, number>();
+
+  rows.forEach((row) => {
+    getRowGroups(stateManager, row, groupBy).forEach(({ id, label, order }) => {
+      if (!groups.has(id)) {
+        groups.set(id, { id, label, rows: [], sums: new Map() });
+        orders.set(id, order);
+      }
+
+      const group = groups.get(id);
+      group.rows.push(row);
+
+      sumKeys.forEach((key) => {
+        getFieldValues(row.original.item, key.toLocaleLowerCase()).forEach((value) => {
+          const num = getNumericValue(value);
+          if (num !== null) group.sums.set(key, (group.sums.get(key) ?? 0) + num);
+        });
+      });
+    });
+  });
+
+  return Array.from(groups.values()).sort(
+    (a, b) => orders.get(a.id) - orders.get(b.id) || defaultSort(a.label, b.label)
+  );
+}
@@ -14,29 +14,44 @@ import { StateManager } from 'src/StateManager';
 import { c } from 'src/components/helpers';
 import { defaultSort } from 'src/helpers/util';
 import { t } from 'src/lang/helpers';
-import { getDataviewPlugin, lableToName, taskFields } from 'src/parsers/helpers/inlineMetadata';
+import {
+  InlineField,
+  getDataviewPlugin,
+  lableToName,
+  taskFields,
+} from 'src/parsers/helpers/inlineMetadata';
 
 import { Tags } from '../Item/ItemContent';
 import { MetadataValue, anyToString } from '../Item/MetadataTable';
-import { SearchContext } from '../context';
+import { KanbanContext, SearchContext, SearchContextProps } from '../context';
 import { Board, Lane } from '../types';
-import { DateCell, ItemCell, LaneCell } from './Cells';
+import { DateCell, ItemCell, LaneCell, MetadataCell } from './Cells';
+import { getFieldEditor } from './editing';
 import { TableData, TableItem } from './types';
 
 export const columnHelper = createColumnHelper<TableItem>();
 
-export const fuzzyAnyFilter: FilterFn<TableItem> = (row, columnId, search, addMeta) => {
+// Rows are filtered by the board search, and ranked against its plain text for sorting
+export const searchFilter: FilterFn<TableItem> = (
+  row,
+  columnId,
+  search: SearchContextProps,
+  addMeta
+) => {
+  if (!search.items.has(row.original.item)) return false;
+
   const val = row.getValue(columnId) as any;
 
-  if (val === null) return false;
+  if (val !== null && search.highlight) {
+    const stateManager = row.original.stateManager;
+    const str = val.value ? anyToString(val.value, stateManager) : anyToString(val, stateManager);
+    const itemRank = rankItem(str, search.highlight, {
+      threshold: rankings.CONTAINS,
+    });
+    addMeta({ itemRank });
+  }
 
-  const stateManager = row.original.stateManager;
-  const str = val.value ? anyToString(val.value, stateManager) : anyToString(val, stateManager);
-  const itemRank = rankItem(str, search, {
-    threshold: rankings.CONTAINS,
-  });
-  addMeta({ itemRank });
-  return itemRank.passed;
+  return true;
 };
 
 export const fuzzySort: SortingFn<any> = (rowA, rowB, columnId) => {
@@ -50,67 +65,70 @@ export const fuzzySort: SortingFn<any> = (rowA, rowB, columnId) => {
   );
 };
 
-export function useTableData(board: Board, stateManager: StateManager): TableData {
-  return useMemo<TableData>(() => {
-    const items: TableItem[] = [];
-    const metadata: Set<string> = new Set();
-    const fileMetadata: Set<string> = new Set();
-    const inlineMetadata: Set<string> = new Set();
-    const metadataLabels: Map<string, string> = new Map();
-    const lanes: Lane[] = board?.children || [];
-    const metadataKeys = stateManager.getSetting('metadata-keys');
-    const moveInlineMetadata = stateManager.getSetting('inline-metadata-position') !== 'body';
-
-    for (let i = 0, len = lanes.length; i < len; i++) {
-      const lane = lanes[i];
-      for (let j = 0, len = lane.children.length; j < len; j++) {
-        const item = lane.children[j];
-        const itemMetadata = item.data.metadata;
-        const itemfileMetadata = itemMetadata.fileMetadata || {};
-        const fileMetaOrder = itemMetadata.fileMetadataOrder || [];
-        const itemInlineMetadata = itemMetadata.inlineMetadata;
-
-        if (!metadata.has('date') && itemMetadata.date) {
-          metadata.add('date');
-        }
-        if (!metadata.has('tags') && itemMetadata.tags?.length) {
-          metadata.add('tags');
-        }
+// The cards and metadata columns shown in the table, which are also what boards export to CSV
+export function getTableData(board: Board, stateManager: StateManager): TableData {
+  const items: TableItem[] = [];
+  const metadata: Set<string> = new Set();
+  const fileMetadata: Set<string> = new Set();
+  const inlineMetadata: Set<string> = new Set();
+  const metadataLabels: Map<string, string> = new Map();
+  const lanes: Lane[] = board?.children || [];
+  const metadataKeys = stateManager.getSetting('metadata-keys');
+  const moveInlineMetadata = stateManager.getSetting('inline-metadata-position') !== 'body';
+
+  for (let i = 0, len = lanes.length; i < len; i++) {
+    const lane = lanes[i];
+    for (let j = 0, len = lane.children.length; j < len; j++) {
+      const item = lane.children[j];
+      const itemMetadata = item.data.metadata;
+      const itemfileMetadata = itemMetadata.fileMetadata || {};
+      const fileMetaOrder = itemMetadata.fileMetadataOrder || [];
+      const itemInlineMetadata = itemMetadata.inlineMetadata;
+
+      if (!metadata.has('date') && itemMetadata.date) {
+        metadata.add('date');
+      }
+      if (!metadata.has('tags') && itemMetadata.tags?.length) {
+        metadata.add('tags');
+      }
 
-        for (const key of fileMetaOrder) {
-          if (!fileMetadata.has(key) && itemfileMetadata[key]) {
-            fileMetadata.add(key);
-            metadataLabels.set(key, itemfileMetadata[key].label || key);
-          }
+      for (const key of fileMetaOrder) {
+        if (!fileMetadata.has(key) && itemfileMetadata[key]) {
+          fileMetadata.add(key);
+          metadataLabels.set(key, itemfileMetadata[key].label || key);
         }
+      }
 
-        if (itemInlineMetadata && moveInlineMetadata) {
-          itemInlineMetadata.forEach((m) => {
-            if (!inlineMetadata.has(m.key)) {
-              inlineMetadata.add(m.key);
-              if (!metadataLabels.has(m.key)) {
-                if (taskFields.has(m.key)) metadataLabels.set(m.key, lableToName(m.key));
-                else {
-                  const key = metadataKeys.find((k) => k.metadataKey === m.key);
-                  metadataLabels.set(m.key, key?.label || m.key);
-                }
+      if (itemInlineMetadata && moveInlineMetadata) {
+        itemInlineMetadata.forEach((m) => {
+          if (!inlineMetadata.has(m.key)) {
+            inlineMetadata.add(m.key);
+            if (!metadataLabels.has(m.key)) {
+              if (taskFields.has(m.key)) metadataLabels.set(m.key, lableToName(m.key));
+              else {
+                const key = metadataKeys.find((k) => k.metadataKey === m.key);
+                metadataLabels.set(m.key, key?.label || m.key);
               }
             }
-          });
-        }
-
-        items.push({ item, lane, path: [i, j], stateManager });
+          }
+        });
       }
+
+      items.push({ item, lane, path: [i, j], stateManager });
     }
+  }
+
+  return {
+    items,
+    metadataLabels,
+    metadata: Array.from(metadata),
+    fileMetadata: Array.from(fileMetadata),
+    inlineMetadata: Array.from(inlineMetadata),
+  };
+}
 
-    return {
-      items,
-      metadataLabels,
-      metadata: Array.from(metadata),
-      fileMetadata: Array.from(fileMetadata),
-      inlineMetadata: Array.from(inlineMetadata),
-    };
-  }, [board]);
+export function useTableData(board: Board, stateManager: StateManager): TableData {
+  return useMemo<TableData>(() => getTableData(board, stateManager), [board]);
 }
 
 export const baseColumns = (sizing: Record<string, number>): ColumnDef<TableItem, any>[] => [
@@ -150,6 +168,8 @@ export const baseColumns = (sizing: Record<string, number>): ColumnDef<TableItem
 
 export function useTableColumns(boardData: Board, stateManager: StateManager) {
   const search = useContext(SearchContext);
+  const { view } = useContext(KanbanContext);
+  const hiddenMetadata = view.useViewState('hidden-metadata');
 
   const [sorting, setSortingRaw] = useState<SortingState>([]);
   const shouldShowRelativeDate = stateManager.useSetting('show-relative-date');
@@ -170,7 +190,10 @@ export function useTableColumns(boardData: Board, stateManager: StateManager) {
     },
     [setSortingRaw]
   );
-  const state = useMemo(() => ({ sorting, globalFilter: search?.query }), [sorting, search?.query]);
+  const state = useMemo(
+    () => ({ sorting, globalFilter: search?.query ? search : undefined }),
+    [sorting, search]
+  );
 
   const { items, metadata, fileMetadata, inlineMetadata, metadataLabels } = useTableData(
     boardData,
@@ -227,7 +250,7 @@ export function useTableColumns(boardData: Board, stateManager: StateManager) {
                 id: 'card-tags',
                 size: tableSizing['card-tags'],
                 cell: (info) => {
-                  const searchQuery = info.table.getState().globalFilter;
+                  const searchQuery = info.table.getState().globalFilter?.highlight;
                   const tags = info.getValue();
                   if (!tags?.length) return null;
                   return <Tags tags={tags} searchQuery={searchQuery} />;
@@ -272,7 +295,49 @@ export function useTableColumns(boardData: Board, stateManager: StateManager) {
 
   const withInlineMetadata = useMemo(() => {
     const columns = [...withMetadata];
+    const renderInlineMetadata = (m: InlineField) => {
+      const isEmoji = m.wrapping === 'emoji-shorthand';
+      const val = getDataviewPlugin()?.api?.parse(m.value) ?? m.value;
+      const isEmojiPriority = isEmoji && m.key === 'priority';
+      const isDate = !!val?.ts;
+
+      return (
+        <span
+          className={classcat([
+            c('item-task-inline-metadata-item'),
+            m.key.replace(/[^a-z0-9]/g, '-'),
+            {
+              'is-task-metadata': taskFields.has(m.key),
+              'is-emoji': isEmoji,
+              'is-date': isDate,
+            },
+          ])}
+        >
+          {!isEmojiPriority && (
+            <span className={c('item-task-inline-metadata-item-value')}>
+              <MetadataValue
+                searchQuery={search?.highlight}
+                data={{
+                  value: val,
+                  label: '',
+                  metadataKey: m.key,
+                  shouldHideLabel: false,
+                  containsMarkdown: false,
+                }}
+              />
+            </span>
+          )}
+        </span>
+      );
+    };
+
     for (const key of inlineMetadata) {
+      const editor = getFieldEditor(
+        'inline',
+        key,
+        items.map((row) => row.item.data.metadata.inlineMetadata?.find((m) => m.key === key)?.value)
+      );
+
       columns.push(
         columnHelper.accessor(
           (row) => {
@@ -285,44 +350,20 @@ export function useTableColumns(boardData: Board, stateManager: StateManager) {
             header: metadataLabels.get(key) ?? key,
             cell: (info) => {
               const m = info.getValue();
-              if (!m) return null;
-
-              const isTaskMetadata = taskFields.has(m.key);
+              const isTaskMetadata = taskFields.has(key);
               if (!moveTaskMetadata && isTaskMetadata) return null;
               if (!moveInlineMetadata && !isTaskMetadata) return null;
 
-              const isEmoji = m.wrapping === 'emoji-shorthand';
-              const val = getDataviewPlugin()?.api?.parse(m.value) ?? m.value;
-              const isEmojiPriority = isEmoji && m.key === 'priority';
-              const isDate = !!val?.ts;
-
               return (
-                <span
-                  className={classcat([
-                    c('item-task-inline-metadata-item'),
-                    m.key.replace(/[^a-z0-9]/g, '-'),
-                    {
-                      'is-task-metadata': isTaskMetadata,
-                      'is-emoji': isEmoji,
-                      'is-date': isDate,
-                    },
-                  ])}
+                <MetadataCell
+                  row={info.row.original}
+                  source="inline"
+                  field={key}
+                  editor={editor}
+                  value={m?.value}
                 >
-                  {!isEmojiPriority && (
-                    <span className={c('item-task-inline-metadata-item-value')}>
-                      <MetadataValue
-                        searchQuery={search?.query}
-                        data={{
-                          value: val,
-                          label: '',
-                          metadataKey: m.key,
-                          shouldHideLabel: false,
-                          containsMarkdown: false,
-                        }}
-                      />
-                    </span>
-                  )}
-                </span>
+                  {m && renderInlineMetadata(m)}
+                </MetadataCell>
               );
             },
             sortDescFirst: false,
@@ -353,6 +394,12 @@ export function useTableColumns(boardData: Board, stateManager: StateManager) {
   const withFileMetadata = useMemo(() => {
     const columns = [...withInlineMetadata];
     for (const key of fileMetadata) {
+      const editor = getFieldEditor(
+        'file',
+        key,
+        items.map((row) => row.item.data.metadata.fileMetadata?.[key]?.value)
+      );
+
       columns.push(
         columnHelper.accessor(
           (row) => {
@@ -367,12 +414,22 @@ export function useTableColumns(boardData: Board, stateManager: StateManager) {
             header: metadataLabels.get(key) ?? key,
             cell: (info) => {
               const val = info.getValue();
-              if (!val) return null;
-              const searchQuery = info.table.getState().globalFilter;
+              const searchQuery = info.table.getState().globalFilter?.highlight;
               if (key === 'tags') {
+                if (!val) return null;
                 return <Tags searchQuery={searchQuery} tags={val.value as string[]} alwaysShow />;
               }
-              return <MetadataValue data={val} searchQuery={searchQuery} />;
+              return (
+                <MetadataCell
+                  row={info.row.original}
+                  source="file"
+                  field={key}
+                  editor={editor}
+                  value={val?.value}
+                >
+                  {val && <MetadataValue data={val} searchQuery={searchQuery} />}
+                </MetadataCell>
+              );
             },
             sortDescFirst: false,
             sortingFn: (a, b, id) => {
@@ -413,5 +470,16 @@ export function useTableColumns(boardData: Board, stateManager: StateManager) {
     return columns;
   }, [withInlineMetadata, ...fileMetadata, ...metadataLabels.values()]);
 
-  return { data: items, columns: withFileMetadata, state, setSorting };
+  const columns = useMemo(() => {
+    if (!hiddenMetadata?.length) return withFileMetadata;
+    return withFileMetadata.filter((column) => !hiddenMetadata.includes(column.id));
+  }, [withFileMetadata, hiddenMetadata]);
+
+  // Inline and file metadata fields, which rows can be grouped by
+  const fields = useMemo(
+    () => Array.from(new Set([...inlineMetadata, ...fileMetadata])),
+    [inlineMetadata, fileMetadata]
+  );
+
+  return { data: items, columns, state, setSorting, fields, metadataLabels };
 }
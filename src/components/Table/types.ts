@@ -1,3 +1,5 @@
+import { Row } from '@tanstack/react-table';
+
 import { StateManager } from '../../StateManager';
 import { Path } from '../../dnd/types';
 import { Item, Lane } from '../types';
@@ -16,3 +18,11 @@ export interface TableData {
   inlineMetadata: string[];
   metadataLabels: Map<string, string>;
 }
+
+export interface TableGroup {
+  id: string;
+  label: string;
+  rows: Row<TableItem>[];
+  // Totals of the group's numeric metadata, by column id
+  sums: Map<string, number>;
+}
@@ -4,6 +4,7 @@ import { StateManager } from 'src/StateManager';
 import { IntersectionObserverHandler } from 'src/dnd/managers/ScrollManager';
 
 import { BoardModifiers } from '../helpers/boardModifiers';
+import { ItemDependencies, SubtaskProgress } from './helpers';
 import { Item, Lane, LaneSort } from './types';
 
 export interface KanbanContextProps {
@@ -17,6 +18,8 @@ export const KanbanContext = createContext<KanbanContextProps>(null);
 
 export interface SearchContextProps {
   query: string;
+  // The plain text and tags of the query, which are highlighted in matching cards
+  highlight: string;
   items: Set<Item>;
   lanes: Set<Lane>;
   search: (query: string, immediate?: boolean) => void;
@@ -28,3 +31,26 @@ export const IntersectionObserverContext = createContext<{
   registerHandler: (el: HTMLElement, handler: IntersectionObserverHandler) => void;
   unregisterHandler: (el: HTMLElement) => void;
 } | null>(null);
+
+export interface SubtaskContextProps {
+  progress: Map<string, SubtaskProgress>;
+  collapsed: Set<string>;
+  toggleCollapsed: (item: Item) => void;
+}
+
+export const SubtaskContext = createContext<SubtaskContextProps | null>(null);
+
+export type SelectionMode = 'toggle' | 'range';
+
+export interface SelectionContextProps {
+  // Ids of the selected cards
+  selected: Set<string>;
+  // Range selections run from the last selected card, through `order` when given and
+  // through the visible cards of the board otherwise
+  select: (item: Item, mode: SelectionMode, order?: Item[]) => void;
+  clear: () => void;
+}
+
+export const SelectionContext = createContext<SelectionContextProps | null>(null);
+
+export const DependencyContext = createContext<Map<Item, ItemDependencies> | null>(null);
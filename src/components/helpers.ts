@@ -1,19 +1,24 @@
 import update from 'immutability-helper';
-import { App, MarkdownView, TFile, moment } from 'obsidian';
+import { App, MarkdownView, Notice, TFile, moment } from 'obsidian';
 import Preact, { Dispatch, RefObject, useEffect } from 'preact/compat';
 import { StateUpdater, useMemo } from 'preact/hooks';
 import { StateManager } from 'src/StateManager';
 import { Path } from 'src/dnd/types';
 import { getEntityFromPath } from 'src/dnd/util/data';
+import { getSearchHighlight, matchesSearch, parseSearchQuery } from 'src/helpers/search';
+import { t } from 'src/lang/helpers';
 import {
   InlineField,
+  getLaneEntered,
+  getTaskDependencies,
+  getTaskId,
   getTaskStatusDone,
   getTaskStatusPreDone,
   toggleTask,
 } from 'src/parsers/helpers/inlineMetadata';
 
 import { SearchContextProps } from './context';
-import { Board, DataKey, DateColor, Item, Lane, PageData, TagColor } from './types';
+import { AgeColor, Board, DataKey, DateColor, Item, Lane, PageData, TagColor } from './types';
 
 export const baseClassName = 'kanban-plugin';
 
@@ -68,7 +73,18 @@ export function maybeCompleteForMove(
     let replacement: Item;
 
     itemStrings.forEach((str, i) => {
-      if (i === thisIndex) {
+      if (i === thisIndex && sourceStateManager === destinationStateManager) {
+        // Update the card in place so it keeps its id, block id and file
+        next = destinationStateManager.updateItemContent(
+          update(item, {
+            data: {
+              checkChar: { $set: checkChars[i] },
+              checked: { $set: checkChars[i] !== ' ' },
+            },
+          }),
+          str
+        );
+      } else if (i === thisIndex) {
         next = destinationStateManager.getNewItem(str, checkChars[i]);
       } else {
         replacement = destinationStateManager.getNewItem(str, checkChars[i]);
@@ -319,6 +335,43 @@ export function useGetDateColorFn(
   return useMemo(() => getDateColorFn(dateColors), [dateColors]);
 }
 
+// A card gets the color of the longest age rule it has reached
+export function getAgeColorFn(ageColors: AgeColor[]) {
+  const rules = (ageColors || [])
+    .filter((ageColor) => ageColor.distance > 0)
+    .map<[number, AgeColor]>((ageColor) => [
+      moment.duration(ageColor.distance, ageColor.unit).asMilliseconds(),
+      ageColor,
+    ])
+    .sort((a, b) => b[0] - a[0]);
+
+  return (entered: moment.Moment) => {
+    const age = moment().diff(entered);
+    return rules.find(([threshold]) => age >= threshold)?.[1] ?? null;
+  };
+}
+
+export function useGetAgeColorFn(
+  stateManager: StateManager
+): (entered: moment.Moment) => AgeColor | null {
+  const ageColors = stateManager.useSetting('age-colors');
+  return useMemo(() => getAgeColorFn(ageColors), [ageColors]);
+}
+
+// When a card entered its current lane, if the board has recorded it
+export function getItemLaneEntered(item: Item): moment.Moment | null {
+  const history = item.data.metadata.lane_history;
+  const entered =
+    Array.isArray(history) && history.length
+      ? history[history.length - 1].entered
+      : getLaneEntered(item.data.titleRaw) ?? getInlineTaskField(item, 'entered');
+
+  if (!entered) return null;
+
+  const date = moment(entered);
+  return date.isValid() ? date : null;
+}
+
 export function parseMetadataWithOptions(data: InlineField, metadataKeys: DataKey[]): PageData {
   const options = metadataKeys.find((opts) => opts.metadataKey === data.key);
 
@@ -357,21 +410,22 @@ export function useOnMount(refs: RefObject<HTMLElement>[], cb: () => void, onUnm
 export function useSearchValue(
   board: Board,
   query: string,
+  stateManager: StateManager,
   setSearchQuery: Dispatch<StateUpdater<string>>,
   setDebouncedSearchQuery: Dispatch<StateUpdater<string>>,
   setIsSearching: Dispatch<StateUpdater<boolean>>
 ) {
   return useMemo<SearchContextProps>(() => {
-    query = query.trim().toLocaleLowerCase();
+    const groups = parseSearchQuery(query);
 
     const lanes = new Set<Lane>();
     const items = new Set<Item>();
 
-    if (query) {
+    if (groups.length) {
       board.children.forEach((lane) => {
         let laneMatched = false;
         lane.children.forEach((item) => {
-          if (item.data.titleSearch.includes(query)) {
+          if (matchesSearch(stateManager, groups, item, lane)) {
             laneMatched = true;
             items.add(item);
           }
@@ -383,7 +437,8 @@ export function useSearchValue(
     return {
       lanes,
       items,
-      query,
+      query: query.trim().toLocaleLowerCase(),
+      highlight: getSearchHighlight(groups),
       search: (query, immediate) => {
         if (!query) {
           setIsSearching(false);
@@ -399,5 +454,192 @@ export function useSearchValue(
         }
       },
     };
-  }, [board, query, setSearchQuery, setDebouncedSearchQuery]);
+  }, [board, query, stateManager, setSearchQuery, setDebouncedSearchQuery]);
+}
+
+// Subtasks point at their parent through parent_id, which holds the parent's block id on
+// list boards and the parent's stored id on folder boards
+export function getItemRef(item: Item) {
+  return item.data.blockId || item.id;
+}
+
+export function isSubtaskOf(child: Item, parent: Item) {
+  const parentId = child.data.parent_id;
+  return !!parentId && (parentId === parent.id || parentId === parent.data.blockId);
+}
+
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+export function getSubtaskProgress(board: Board) {
+  const progress = new Map<string, SubtaskProgress>();
+
+  board?.children.forEach((lane) => {
+    lane.children.forEach((item) => {
+      const parentId = item.data.parent_id;
+      if (!parentId) return;
+
+      const entry = progress.get(parentId) || { done: 0, total: 0 };
+      entry.total++;
+      if (item.data.checked) entry.done++;
+      progress.set(parentId, entry);
+    });
+  });
+
+  return progress;
+}
+
+export function getItemSubtaskProgress(
+  progress: Map<string, SubtaskProgress>,
+  item: Item
+): SubtaskProgress | null {
+  const refs = new Set([item.id, item.data.blockId].filter(Boolean));
+  let result: SubtaskProgress | null = null;
+
+  refs.forEach((ref) => {
+    const entry = progress.get(ref);
+    if (!entry) return;
+    result = result
+      ? { done: result.done + entry.done, total: result.total + entry.total }
+      : { ...entry };
+  });
+
+  return result;
+}
+
+// Returns, for each item in a lane, the chain of parents above it that are in the same lane
+export function getLaneAncestors(items: Item[]): Item[][] {
+  return items.map((item) => {
+    const ancestors: Item[] = [];
+    let current = item;
+
+    // Guard against parent_id cycles
+    while (ancestors.length < items.length) {
+      const parent = items.find(
+        (candidate) => candidate !== current && isSubtaskOf(current, candidate)
+      );
+      if (!parent || parent === item || ancestors.includes(parent)) break;
+
+      ancestors.push(parent);
+      current = parent;
+    }
+
+    return ancestors;
+  });
+}
+
+// Folder boards can split their columns into rows using a second level of folders. Swimlanes
+// come from the folders found on load, plus any that cards have been moved into since.
+export function getBoardSwimlanes(board: Board): string[] {
+  const swimlanes = new Set(board?.data.swimlanes || []);
+
+  board?.children.forEach((lane) => {
+    lane.children.forEach((item) => {
+      if (item.data.metadata.swimlane) swimlanes.add(item.data.metadata.swimlane);
+    });
+  });
+
+  return Array.from(swimlanes).sort((a, b) => a.localeCompare(b));
+}
+
+// Task fields moved to the card footer are only kept in the parsed inline metadata
+function getInlineTaskField(item: Item, key: string) {
+  return item.data.metadata.inlineMetadata?.find((field) => field.key === key)?.value;
+}
+
+export function getItemTaskId(item: Item): string | null {
+  return getTaskId(item.data.titleRaw) ?? getInlineTaskField(item, 'id') ?? null;
+}
+
+export function getItemDependencyIds(item: Item): string[] {
+  const ids = getTaskDependencies(item.data.titleRaw);
+  if (ids.length) return ids;
+
+  const value = getInlineTaskField(item, 'dependsOn');
+  return value ? getTaskDependencies(`⛔ ${value}`) : [];
+}
+
+export function getItemTitle(item: Item) {
+  return item.data.titleRaw.split('\n')[0];
+}
+
+export interface ItemDependencies {
+  blockedBy: Item[];
+  blocking: Item[];
+}
+
+// Resolves the ⛔ references of every card on the board against the cards' 🆔 ids
+export function getBoardDependencies(board: Board) {
+  const dependencies = new Map<Item, ItemDependencies>();
+  const itemsById = new Map<string, Item>();
+  const items = (board?.children || []).reduce<Item[]>(
+    (acc, lane) => acc.concat(lane.children),
+    []
+  );
+
+  const getEntry = (item: Item) => {
+    if (!dependencies.has(item)) dependencies.set(item, { blockedBy: [], blocking: [] });
+    return dependencies.get(item);
+  };
+
+  items.forEach((item) => {
+    const id = getItemTaskId(item);
+    if (id && !itemsById.has(id)) itemsById.set(id, item);
+  });
+
+  items.forEach((item) => {
+    getItemDependencyIds(item).forEach((id) => {
+      const blocker = itemsById.get(id);
+      if (!blocker || blocker === item) return;
+
+      getEntry(item).blockedBy.push(blocker);
+      getEntry(blocker).blocking.push(item);
+    });
+  });
+
+  return dependencies;
+}
+
+export function getOpenBlockers(dependencies?: ItemDependencies) {
+  return dependencies?.blockedBy.filter((blocker) => !blocker.data.checked) || [];
+}
+
+// Warns when a blocked card is about to be completed. Returns false if the board is set to
+// refuse completing blocked cards.
+export function canCompleteItem(stateManager: StateManager, item: Item) {
+  const blockers = getOpenBlockers(getBoardDependencies(stateManager.state).get(item));
+  if (!blockers.length) return true;
+
+  const titles = blockers.map(getItemTitle).join(', ');
+
+  if (stateManager.getSetting('prevent-blocked-completion')) {
+    new Notice(
+      `${t('Blocked cards can only be completed once their dependencies are done')}: ${titles}`
+    );
+    return false;
+  }
+
+  new Notice(`${t('This card is still blocked by')}: ${titles}`);
+  return true;
+}
+
+// Paths of the selected cards, in board order
+export function getSelectedPaths(board: Board, selected: Set<string>): Path[] {
+  const paths: Path[] = [];
+  if (!selected.size) return paths;
+
+  board?.children.forEach((lane, laneIndex) => {
+    lane.children.forEach((item, itemIndex) => {
+      if (selected.has(item.id)) paths.push([laneIndex, itemIndex]);
+    });
+  });
+
+  return paths;
+}
+
+// Cards from query lists belong to other files, so they can't be selected
+export function canSelectItem(item: Item) {
+  return !item.data.metadata.querySource;
 }
@@ -13,10 +13,18 @@ export enum LaneSort {
   TagsDsc,
 }
 
+// How a lane reacts to cards that would push it over one of its WIP limits
+export type WipMode = 'warn' | 'soft' | 'hard';
+
 export interface LaneData {
   shouldMarkItemsComplete?: boolean;
   title: string;
   maxItems?: number;
+  wipMode?: WipMode;
+  // Extra limits keyed by #tag or assignee name
+  wipLimits?: Record<string, number>;
+  // Query lists show the tasks matching a Dataview query instead of stored cards
+  query?: string;
   dom?: HTMLDivElement;
   forceEditMode?: boolean;
   sorted?: LaneSort | string;
@@ -39,6 +47,16 @@ export interface TagSort {
   tag: string;
 }
 
+// A named way of looking at a board: its search, collapsed and sorted lists, and the metadata
+// keys hidden from cards. Lists are matched by position, like list-collapse.
+export interface Perspective {
+  name: string;
+  search?: string;
+  'list-collapse'?: boolean[];
+  'lane-sort'?: Array<LaneSort | string | null>;
+  'hidden-metadata'?: string[];
+}
+
 export interface DateColor {
   isToday?: boolean;
   isBefore?: boolean;
@@ -50,6 +68,14 @@ export interface DateColor {
   backgroundColor?: string;
 }
 
+// Tints cards that have been in their lane for at least the given time
+export interface AgeColor {
+  distance: number;
+  unit: 'hours' | 'days' | 'weeks' | 'months';
+  color?: string;
+  backgroundColor?: string;
+}
+
 export type PageDataValue =
   | string
   | number
@@ -75,6 +101,26 @@ export interface ItemMetadata {
   fileMetadata?: FileMetadata;
   fileMetadataOrder?: string[];
   inlineMetadata?: InlineField[];
+  order?: number;
+  archived_from?: string;
+  archived_at?: string;
+  swimlane?: string;
+  lane_history?: LaneTransition[];
+  querySource?: QuerySource;
+}
+
+// Where a card in a query list came from
+export interface QuerySource {
+  path: string;
+  line: number;
+  text: string;
+}
+
+// Folder boards keep a record of every lane a card has been in
+export interface LaneTransition {
+  lane: string;
+  entered: string;
+  left?: string;
 }
 
 export interface ItemData {
@@ -100,6 +146,7 @@ export interface BoardData {
   frontmatter: Record<string, number | string | Array<number | string>>;
   archive: Item[];
   errors: ErrorReport[];
+  swimlanes?: string[];
 }
 
 export type Item = Nestable<ItemData>;
@@ -109,6 +156,7 @@ export type MetadataSetting = Nestable<DataKey>;
 export type TagColorSetting = Nestable<TagColor>;
 export type TagSortSetting = Nestable<TagSort>;
 export type DateColorSetting = Nestable<DateColor>;
+export type AgeColorSetting = Nestable<AgeColor>;
 
 export const DataTypes = {
   Item: 'item',
@@ -118,6 +166,7 @@ export const DataTypes = {
   TagColorSetting: 'tag-color',
   TagSortSetting: 'tag-sort',
   DateColorSetting: 'date-color',
+  AgeColorSetting: 'age-color',
 };
 
 export const ItemTemplate = {
@@ -164,6 +213,12 @@ export const DateColorSettingTemplate = {
   children: [] as any[],
 };
 
+export const AgeColorSettingTemplate = {
+  accepts: [] as string[],
+  type: DataTypes.AgeColorSetting,
+  children: [] as any[],
+};
+
 export interface EditCoordinates {
   x: number;
   y: number;
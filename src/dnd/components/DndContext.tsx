@@ -1,24 +1,33 @@
 import { useEffect, useMemo, useRef } from 'preact/compat';
 
-import { DndManager } from '../managers/DndManager';
+import { DndManager, DropOptions, DropValidator } from '../managers/DndManager';
 import { Entity, WithChildren } from '../types';
 import { DndScrollState } from './ScrollStateContext';
 import { DndManagerContext } from './context';
 
 interface DndContextProps extends WithChildren {
   win: Window;
-  onDrop(dragEntity: Entity, dropEntity: Entity): void;
+  onDrop(dragEntity: Entity, dropEntity: Entity, options?: DropOptions): void;
+  canDrop?: DropValidator;
 }
 
-export function DndContext({ win, children, onDrop }: DndContextProps) {
+export function DndContext({ win, children, onDrop, canDrop }: DndContextProps) {
   const onDropRef = useRef(onDrop);
+  const canDropRef = useRef(canDrop);
 
   onDropRef.current = onDrop;
+  canDropRef.current = canDrop;
 
   const dndManager = useMemo(() => {
-    return new DndManager(win, (dragEntity: Entity, dropEntity: Entity) => {
-      return onDropRef.current(dragEntity, dropEntity);
-    });
+    return new DndManager(
+      win,
+      (dragEntity: Entity, dropEntity: Entity, options?: DropOptions) => {
+        return onDropRef.current(dragEntity, dropEntity, options);
+      },
+      (dragEntity: Entity, dropEntity: Entity) => {
+        return !canDropRef.current || canDropRef.current(dragEntity, dropEntity);
+      }
+    );
   }, []);
 
   useEffect(() => {
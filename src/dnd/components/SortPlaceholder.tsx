@@ -10,6 +10,8 @@ export interface SortPlaceholderProps extends WithChildren {
   accepts: string[];
   className?: string;
   isStatic?: boolean;
+  // Extra entity data passed along to drop handlers
+  data?: Record<string, any>;
 }
 
 export function SortPlaceholder({
@@ -18,6 +20,7 @@ export function SortPlaceholder({
   className,
   isStatic,
   children,
+  data: extraData,
 }: SortPlaceholderProps) {
   const elementRef = useRef<HTMLDivElement>(null);
   const measureRef = useRef<HTMLDivElement>(null);
@@ -27,8 +30,9 @@ export function SortPlaceholder({
       id: generateInstanceId(),
       type: 'placeholder',
       accepts,
+      ...extraData,
     };
-  }, accepts);
+  }, [...accepts, extraData]);
 
   return (
     <div ref={measureRef} className={classcat([className, c('placeholder')])}>
@@ -5,7 +5,15 @@ import { Entity } from '../types';
 import { getParentWindow } from '../util/getWindow';
 import { DragManager } from './DragManager';
 
-export type DropHandler = (dragEntity: Entity, dropEntity: Entity) => void;
+export interface DropOptions {
+  // Whether the alt/option key was held when the entity was dropped
+  altKey?: boolean;
+}
+
+export type DropHandler = (dragEntity: Entity, dropEntity: Entity, options?: DropOptions) => void;
+
+// Decides whether an entity may be sorted into the position of another
+export type DropValidator = (dragEntity: Entity, dropEntity: Entity) => boolean;
 
 export class DndManager {
   win: Window;
@@ -15,13 +23,15 @@ export class DndManager {
   resizeObserver: ResizeObserver;
   dragManager: DragManager;
   onDrop: DropHandler;
+  canDrop: DropValidator;
 
-  constructor(win: Window, onDrop: DropHandler) {
+  constructor(win: Window, onDrop: DropHandler, canDrop: DropValidator = () => true) {
     this.win = win;
     this.emitter = new EventEmitter();
     this.hitboxEntities = new Map();
     this.scrollEntities = new Map();
     this.onDrop = onDrop;
+    this.canDrop = canDrop;
 
     this.resizeObserver = new ResizeObserver(debounce(this.handleResize, 100, true));
     this.dragManager = new DragManager(win, this.emitter, this.hitboxEntities, this.scrollEntities);
@@ -24,6 +24,7 @@ export interface DragEventData {
   dragPosition?: Coordinates;
   primaryIntersection?: Entity;
   scrollIntersections?: [Entity, number][];
+  altKey?: boolean;
 }
 
 export interface ScrollEventData extends DragEventData {
@@ -45,6 +46,7 @@ export class DragManager {
   dragOrigin?: Coordinates;
   dragOriginHitbox?: Hitbox;
   dragPosition?: Coordinates;
+  altKey?: boolean;
 
   primaryIntersection?: Entity;
   scrollIntersection?: [Entity, number];
@@ -74,6 +76,7 @@ export class DragManager {
       dragPosition: this.dragPosition,
       primaryIntersection: this.primaryIntersection,
       scrollIntersection: this.scrollIntersection,
+      altKey: this.altKey,
     };
   }
 
@@ -126,9 +129,10 @@ export class DragManager {
     this.calculateDragIntersect();
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   dragEnd(e: PointerEvent) {
+    this.altKey = e.altKey;
     this.emitter.emit('dragEnd', this.getDragEventData());
+    this.altKey = undefined;
     this.dragEntityMargin = undefined;
     this.dragEntity = undefined;
     this.dragEntityId = undefined;
@@ -160,6 +160,7 @@ export class SortManager {
     dragPosition,
     dragOriginHitbox,
     dragEntity,
+    altKey,
   }: DragEventData) => {
     const resetDroparea = () => {
       if (primaryIntersection && dragEntity) {
@@ -223,9 +224,10 @@ export class SortManager {
       if (
         primaryIntersection &&
         this.sortables.has(primaryIntersection.entityId) &&
-        primaryIntersectionId !== dragEntityId
+        primaryIntersectionId !== dragEntityId &&
+        this.dndManager.canDrop(dragEntity, primaryIntersection)
       ) {
-        this.dndManager.onDrop(dragEntity, primaryIntersection);
+        this.dndManager.onDrop(dragEntity, primaryIntersection, { altKey });
       }
 
       this.resetSelf({
@@ -260,6 +262,15 @@ export class SortManager {
       return;
     }
 
+    // Leave rejected targets untouched so they don't look like they'd accept the drop
+    if (!this.dndManager.canDrop(dragEntity, primaryIntersection)) {
+      if (this.isSorting) {
+        this.resetSelf({ maintainHidden: true, maintainPlaceholder: true });
+      }
+
+      return;
+    }
+
     const { win } = this.dndManager;
 
     win.clearTimeout(this.dragLeaveTimeout);
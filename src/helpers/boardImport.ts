@@ -0,0 +1,535 @@
+import { App, TFile, TFolder, moment, normalizePath } from 'obsidian';
+import { KanbanSettings } from 'src/Settings';
+import { buildLinkToDailyNote } from 'src/helpers';
+import { t } from 'src/lang/helpers';
+import { defaultDateTrigger } from 'src/settingHelpers';
+
+import { generateInstanceId, getDefaultDateFormat } from '../components/helpers';
+import { Board, BoardTemplate, Item, ItemTemplate, Lane, LaneTemplate } from '../components/types';
+import { archiveFolderName, boardToFolderMd, serializeItemFile } from '../parsers/FolderFormat';
+import { frontmatterKey } from '../parsers/common';
+import { boardToMd } from '../parsers/formats/list';
+
+export type ImportSource = 'trello' | 'github';
+
+export type ImportFormat = 'list' | 'folder';
+
+export interface ImportedTask {
+  title: string;
+  checked: boolean;
+}
+
+export interface ImportedCard {
+  title: string;
+  description: string;
+  checked: boolean;
+  tags: string[];
+  due: moment.Moment | null;
+  checklist: ImportedTask[];
+}
+
+export interface ImportedLane {
+  title: string;
+  cards: ImportedCard[];
+}
+
+export interface ImportedBoard {
+  source: ImportSource;
+  name: string;
+  lanes: ImportedLane[];
+  // Archived cards, with the title of the list they were archived from
+  archive: { lane: string; card: ImportedCard }[];
+  warnings: string[];
+}
+
+export interface ImportReport {
+  lanes: { title: string; cards: number }[];
+  cards: number;
+  archived: number;
+  subtasks: number;
+  tags: string[];
+  dated: number;
+}
+
+const tagInvalidCharsRegEx = /[\s,.;:!?'"`()[\]{}<>|\\+=*&^%$@~]+/g;
+const fileNameInvalidCharsRegEx = /[\\/:*?"<>|#^[\]]/g;
+const itemFileNameRegEx = /[^a-zA-Z0-9\s-_]/g;
+const checklistLineRegEx = /^\s*[-*+] \[([ xX])\] (.+)$/;
+const dueFieldNames = ['due', 'duedate', 'deadline', 'targetdate', 'enddate'];
+
+function asArray(value: any): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function getText(value: any): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function byPos(a: any, b: any) {
+  return (a?.pos ?? 0) - (b?.pos ?? 0);
+}
+
+function toTag(name: string) {
+  const tag = name.trim().replace(/^#+/, '').replace(tagInvalidCharsRegEx, '-');
+  return tag.replace(/^-+|-+$/g, '');
+}
+
+function toTags(names: string[]) {
+  const tags = new Set<string>();
+
+  names.forEach((name) => {
+    const tag = toTag(name);
+    if (tag) tags.add(`#${tag}`);
+  });
+
+  return Array.from(tags);
+}
+
+function getDueDate(value: any, title: string, warnings: string[]) {
+  if (value === null || value === undefined || value === '') return null;
+
+  const date = moment(value, [moment.ISO_8601, 'YYYY-MM-DD']);
+  if (date.isValid()) return date;
+
+  warnings.push(`${t('Ignored an invalid due date')}: ${title}`);
+  return null;
+}
+
+// Markdown task lines in a card's description become its checklist
+function splitChecklist(body: string) {
+  const checklist: ImportedTask[] = [];
+  const lines = body.split(/\r?\n/).filter((line) => {
+    const match = line.match(checklistLineRegEx);
+    if (!match) return true;
+
+    checklist.push({ title: match[2].trim(), checked: match[1] !== ' ' });
+    return false;
+  });
+
+  return { description: lines.join('\n').trim(), checklist };
+}
+
+function getTrelloLabels(card: any, labels: Map<string, any>) {
+  const cardLabels = Array.isArray(card.labels)
+    ? card.labels
+    : asArray(card.idLabels).map((id) => labels.get(id));
+
+  // Trello labels don't need a name, so unnamed ones go by their colour
+  return cardLabels
+    .filter((label: any) => !!label)
+    .map((label: any) => getText(label.name) || getText(label.color));
+}
+
+// Closed lists and cards are archived. Each card's checklists are merged into one list of subtasks.
+function parseTrelloBoard(json: any, name: string): ImportedBoard {
+  const board: ImportedBoard = { source: 'trello', name, lanes: [], archive: [], warnings: [] };
+  const labels = new Map<string, any>(asArray(json.labels).map((label) => [label.id, label]));
+  const checklists = new Map<string, any[]>();
+  const lists = new Map<string, { lane: ImportedLane; closed: boolean }>();
+
+  asArray(json.checklists).forEach((checklist) => {
+    if (!checklists.has(checklist.idCard)) checklists.set(checklist.idCard, []);
+    checklists.get(checklist.idCard).push(checklist);
+  });
+
+  asArray(json.lists)
+    .slice()
+    .sort(byPos)
+    .forEach((list) => {
+      const lane = { title: getText(list.name) || t('Untitled list'), cards: [] as ImportedCard[] };
+      lists.set(list.id, { lane, closed: !!list.closed });
+      if (!list.closed) board.lanes.push(lane);
+    });
+
+  asArray(json.cards)
+    .slice()
+    .sort(byPos)
+    .forEach((card) => {
+      const title = getText(card.name);
+      const list = lists.get(card.idList);
+
+      if (!title) {
+        board.warnings.push(t('Skipped a card without a title'));
+        return;
+      }
+      if (!list) {
+        board.warnings.push(`${t('Skipped a card whose list is missing')}: ${title}`);
+        return;
+      }
+
+      const checklist: ImportedTask[] = [];
+      (checklists.get(card.id) || asArray(card.checklists))
+        .slice()
+        .sort(byPos)
+        .forEach((cl) => {
+          asArray(cl.checkItems)
+            .slice()
+            .sort(byPos)
+            .forEach((task) => {
+              const taskTitle = getText(task.name);
+              if (!taskTitle) return;
+
+              checklist.push({ title: taskTitle, checked: task.state === 'complete' });
+            });
+        });
+
+      const imported: ImportedCard = {
+        title,
+        description: getText(card.desc),
+        checked: !!card.dueComplete,
+        tags: toTags(getTrelloLabels(card, labels)),
+        due: getDueDate(card.due, title, board.warnings),
+        checklist,
+      };
+
+      if (card.closed || list.closed) {
+        board.archive.push({ lane: list.lane.title, card: imported });
+      } else {
+        list.lane.cards.push(imported);
+      }
+    });
+
+  return board;
+}
+
+// Finds the project in a GraphQL response, which is nested under the organization, user or node
+// it was queried from
+function findProjectV2(value: any, depth = 0): any {
+  if (!value || typeof value !== 'object' || depth > 3) return null;
+  if (value.projectV2) return value.projectV2;
+  if (Array.isArray(value.items?.nodes)) return value;
+
+  for (const key of Object.keys(value)) {
+    const project = findProjectV2(value[key], depth + 1);
+    if (project) return project;
+  }
+
+  return null;
+}
+
+function normalizeFieldName(name: string) {
+  return name.toLocaleLowerCase().replace(/[\s_-]/g, '');
+}
+
+function getField(fields: Record<string, any>, names: string[]) {
+  const key = Object.keys(fields).find((k) => names.includes(normalizeFieldName(k)));
+  return key ? fields[key] : undefined;
+}
+
+// GraphQL items list their field values as nodes, while `gh project item-list` puts each field's
+// value directly on the item
+function getGitHubFields(item: any): { fields: Record<string, any>; labels: string[] } {
+  const nodes = item.fieldValues?.nodes;
+  const labels: string[] = [];
+
+  if (!Array.isArray(nodes)) {
+    asArray(item.labels ?? item.content?.labels).forEach((label) => {
+      labels.push(typeof label === 'string' ? label : getText(label?.name));
+    });
+    return { fields: item, labels };
+  }
+
+  const fields: Record<string, any> = {};
+
+  nodes.forEach((node) => {
+    asArray(node?.labels?.nodes).forEach((label) => labels.push(getText(label?.name)));
+
+    const fieldName = getText(node?.field?.name);
+    if (fieldName) {
+      fields[fieldName] = node.name ?? node.date ?? node.text ?? node.number ?? node.title;
+    }
+  });
+
+  asArray(item.content?.labels?.nodes).forEach((label) => labels.push(getText(label?.name)));
+
+  return { fields, labels };
+}
+
+// Lists come from the Status field, in the order they first appear. Closed issues and merged pull
+// requests are checked, and archived items are archived.
+function parseGitHubProject(items: any[], name: string): ImportedBoard {
+  const board: ImportedBoard = { source: 'github', name, lanes: [], archive: [], warnings: [] };
+  const lanes = new Map<string, ImportedLane>();
+  const noStatus = t('No status');
+
+  items.forEach((item) => {
+    const content = item?.content || {};
+    const title = getText(item?.title) || getText(content.title);
+
+    if (!title) {
+      board.warnings.push(t('Skipped a card without a title'));
+      return;
+    }
+
+    const { fields, labels } = getGitHubFields(item);
+    const status = getText(getField(fields, ['status'])) || noStatus;
+    const state = getText(content.state ?? item.state).toLocaleUpperCase();
+    const { description, checklist } = splitChecklist(getText(content.body ?? item.body));
+
+    const card: ImportedCard = {
+      title: title.replace(/\r?\n/g, ' '),
+      description,
+      checked: state === 'CLOSED' || state === 'MERGED',
+      tags: toTags(labels.filter((label) => !!label)),
+      due: getDueDate(getField(fields, dueFieldNames), title, board.warnings),
+      checklist,
+    };
+
+    if (item.isArchived) {
+      board.archive.push({ lane: status, card });
+      return;
+    }
+
+    if (!lanes.has(status)) {
+      const lane = { title: status, cards: [] as ImportedCard[] };
+      lanes.set(status, lane);
+
+      // Like on GitHub, items without a status come first
+      if (status === noStatus) board.lanes.unshift(lane);
+      else board.lanes.push(lane);
+    }
+
+    lanes.get(status).cards.push(card);
+  });
+
+  return board;
+}
+
+// Reads a Trello board export, a `gh project item-list --format json` dump or a GraphQL
+// response holding a ProjectV2. Returns null when the JSON is none of these.
+export function parseImportedBoard(json: any, fallbackName: string): ImportedBoard | null {
+  if (!json || typeof json !== 'object') return null;
+
+  if (Array.isArray(json.lists) && Array.isArray(json.cards)) {
+    return parseTrelloBoard(json, getText(json.name) || fallbackName);
+  }
+
+  if (Array.isArray(json.items)) {
+    return parseGitHubProject(json.items, fallbackName);
+  }
+
+  const project = findProjectV2(json.data);
+  if (project) {
+    const items = asArray(project.items?.nodes);
+    return parseGitHubProject(items, getText(project.title) || fallbackName);
+  }
+
+  return null;
+}
+
+// What the import would create, shown before anything is written
+export function getImportReport(board: ImportedBoard): ImportReport {
+  const cards = board.lanes.reduce((all, lane) => all.concat(lane.cards), [] as ImportedCard[]);
+  const allCards = cards.concat(board.archive.map(({ card }) => card));
+  const tags = new Set<string>();
+
+  allCards.forEach((card) => card.tags.forEach((tag) => tags.add(tag)));
+
+  return {
+    lanes: board.lanes.map((lane) => ({ title: lane.title, cards: lane.cards.length })),
+    cards: cards.length,
+    archived: board.archive.length,
+    subtasks: allCards.reduce((total, card) => total + card.checklist.length, 0),
+    tags: Array.from(tags).sort((a, b) => a.localeCompare(b)),
+    dated: allCards.filter((card) => !!card.due).length,
+  };
+}
+
+interface DateOptions {
+  app: App;
+  trigger: string;
+  format: string;
+  linkToDailyNote: boolean;
+}
+
+// A new board has no settings of its own yet, so dates are written with the global ones
+function getDateOptions(app: App, settings: KanbanSettings): DateOptions {
+  return {
+    app,
+    trigger: settings['date-trigger'] || defaultDateTrigger,
+    format: settings['date-format'] || getDefaultDateFormat(app),
+    linkToDailyNote: !!settings['link-date-to-daily-note'],
+  };
+}
+
+function cardToTitleRaw(card: ImportedCard, options: DateOptions) {
+  let title = card.tags.reduce(
+    (str, tag) => (str.includes(tag) ? str : `${str} ${tag}`),
+    card.title
+  );
+
+  if (card.due) {
+    const formattedDate = card.due.format(options.format);
+    const wrappedDate = options.linkToDailyNote
+      ? buildLinkToDailyNote(options.app, formattedDate)
+      : `{${formattedDate}}`;
+
+    title += ` ${options.trigger}${wrappedDate}`;
+  }
+
+  return card.description ? `${title}\n${card.description}` : title;
+}
+
+function newImportedItem(titleRaw: string, checked: boolean): Item {
+  return {
+    ...ItemTemplate,
+    id: generateInstanceId(),
+    children: [],
+    data: {
+      checkChar: checked ? 'x' : ' ',
+      titleRaw,
+      checked,
+      titleSearch: titleRaw,
+      titleSearchRaw: titleRaw,
+      metadata: {},
+      parent_id: null,
+    },
+  } as Item;
+}
+
+// A card's checklist follows it as subtasks. Markdown boards link them through the parent's block
+// id, folder boards through the parent's id.
+function cardToItems(card: ImportedCard, format: ImportFormat, options: DateOptions): Item[] {
+  const parent = newImportedItem(cardToTitleRaw(card, options), card.checked);
+  if (!card.checklist.length) return [parent];
+
+  if (format === 'list') parent.data.blockId = generateInstanceId(6);
+  const parentId = format === 'list' ? parent.data.blockId : parent.id;
+
+  return [parent].concat(
+    card.checklist.map((task) => {
+      const item = newImportedItem(task.title, task.checked);
+      item.data.parent_id = parentId;
+      return item;
+    })
+  );
+}
+
+function toFileName(name: string) {
+  return name.replace(fileNameInvalidCharsRegEx, '').trim();
+}
+
+// Folder names have to be valid and unique, and can't clash with the archive folder
+function getLaneTitles(board: ImportedBoard, format: ImportFormat) {
+  if (format === 'list') return board.lanes.map((lane) => lane.title);
+
+  const taken = new Set([archiveFolderName.toLocaleLowerCase()]);
+
+  return board.lanes.map((lane) => {
+    const base = toFileName(lane.title) || t('Untitled list');
+    let title = base;
+
+    for (let i = 1; taken.has(title.toLocaleLowerCase()); i++) title = `${base} ${i}`;
+
+    taken.add(title.toLocaleLowerCase());
+    return title;
+  });
+}
+
+export function importedBoardToBoard(
+  app: App,
+  settings: KanbanSettings,
+  imported: ImportedBoard,
+  format: ImportFormat
+): Board {
+  const options = getDateOptions(app, settings);
+  const titles = getLaneTitles(imported, format);
+
+  const lanes: Lane[] = imported.lanes.map((lane, i) => ({
+    ...LaneTemplate,
+    id: generateInstanceId(),
+    children: lane.cards.reduce(
+      (items, card) => items.concat(cardToItems(card, format, options)),
+      [] as Item[]
+    ),
+    data: { title: titles[i] },
+  }));
+
+  const archive = imported.archive.reduce((items, { lane, card }) => {
+    const archived = cardToItems(card, format, options);
+    const archivedFrom = format === 'folder' ? toFileName(lane) : lane;
+
+    archived.forEach((item) => {
+      item.data.metadata.archived_from = archivedFrom;
+    });
+    return items.concat(archived);
+  }, [] as Item[]);
+
+  return {
+    ...BoardTemplate,
+    id: generateInstanceId(),
+    children: lanes,
+    data: {
+      archive,
+      settings: { [frontmatterKey]: 'board' },
+      frontmatter: { [frontmatterKey]: 'board' },
+      isSearching: false,
+      errors: [],
+    },
+  } as Board;
+}
+
+function getAvailableFolderPath(app: App, base: string) {
+  let path = base;
+  for (let i = 1; app.vault.getAbstractFileByPath(path); i++) path = `${base} ${i}`;
+  return path;
+}
+
+function getItemFileName(item: Item, taken: Set<string>) {
+  const title = item.data.titleRaw.split('\n')[0].replace(itemFileNameRegEx, '').trim();
+  const base = title.slice(0, 100).trim() || 'untitled';
+  let name = base;
+
+  for (let i = 1; taken.has(name.toLocaleLowerCase()); i++) name = `${base}_${i}`;
+
+  taken.add(name.toLocaleLowerCase());
+  return name;
+}
+
+async function createItemFiles(app: App, folderPath: string, items: Item[], ordered: boolean) {
+  const taken = new Set<string>();
+
+  await app.vault.createFolder(folderPath);
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const basename = getItemFileName(item, taken);
+
+    // Folder boards sort cards by title unless they have an order
+    if (ordered) item.data.metadata.order = i;
+
+    await app.vault.create(`${folderPath}/${basename}.md`, serializeItemFile(item, null, basename));
+  }
+}
+
+// Markdown boards are created as one file, folder boards as a folder with board.md, a folder for
+// each list and a note for each card. Returns the board's file.
+export async function createImportedBoard(
+  app: App,
+  settings: KanbanSettings,
+  imported: ImportedBoard,
+  format: ImportFormat,
+  parent: TFolder
+): Promise<TFile> {
+  const board = importedBoardToBoard(app, settings, imported, format);
+  const name = toFileName(imported.name) || t('Untitled Kanban');
+  const base = normalizePath(`${parent.path}/${name}`);
+
+  if (format === 'list') {
+    const path = app.vault.getAvailablePath(base, 'md');
+    return app.vault.create(path, boardToMd(board));
+  }
+
+  const folderPath = getAvailableFolderPath(app, base);
+  await app.vault.createFolder(folderPath);
+
+  for (const lane of board.children) {
+    await createItemFiles(app, `${folderPath}/${lane.data.title}`, lane.children, true);
+  }
+
+  if (board.data.archive.length) {
+    await createItemFiles(app, `${folderPath}/${archiveFolderName}`, board.data.archive, false);
+  }
+
+  return app.vault.create(`${folderPath}/board.md`, boardToFolderMd(board));
+}
@@ -14,8 +14,18 @@ import {
   updateParentEntity,
 } from 'src/dnd/util/data';
 
-import { generateInstanceId } from '../components/helpers';
+import {
+  generateInstanceId,
+  getItemDependencyIds,
+  getItemRef,
+  getItemTaskId,
+  getLaneAncestors,
+} from '../components/helpers';
 import { Board, DataTypes, Item, Lane } from '../components/types';
+import { AggregateFormat } from '../parsers/AggregateFormat';
+import { FolderFormat } from '../parsers/FolderFormat';
+import { setLaneEntered, setTaskDependencies, setTaskId } from '../parsers/helpers/inlineMetadata';
+import { writeQueryItem } from './queryLanes';
 
 export interface BoardModifiers {
   appendItems: (path: Path, items: Item[]) => void;
@@ -34,6 +44,14 @@ export interface BoardModifiers {
   updateItem: (path: Path, item: Item) => void;
   archiveItem: (path: Path) => void;
   duplicateEntity: (path: Path) => void;
+  addSubtask: (path: Path) => void;
+  setItemParent: (path: Path, parentPath: Path | null) => void;
+  addDependency: (path: Path, dependency: Item) => void;
+  removeDependency: (path: Path, dependency: Item) => void;
+  moveItems: (paths: Path[], laneIndex: number) => void;
+  updateItems: (paths: Path[], transform: (item: Item) => Item | Item[]) => void;
+  archiveItems: (paths: Path[]) => void;
+  deleteItems: (paths: Path[]) => void;
 }
 
 export function getBoardModifiers(view: KanbanView, stateManager: StateManager): BoardModifiers {
@@ -219,6 +237,10 @@ export function getBoardModifiers(view: KanbanView, stateManager: StateManager):
     },
 
     updateItem: (path: Path, item: Item) => {
+      if (item.data.metadata.querySource) {
+        item = writeQueryItem(stateManager, item);
+      }
+
       stateManager.setState((boardData) => {
         return updateParentEntity(boardData, path, {
           children: {
@@ -276,5 +298,242 @@ export function getBoardModifiers(view: KanbanView, stateManager: StateManager):
         return insertEntity(boardData, path, [entityWithNewID]);
       });
     },
+
+    addSubtask: (path: Path) => {
+      stateManager.setState((boardData) => {
+        const { board, ref } = ensureParentRef(stateManager, boardData, path);
+        const lane = board.children[path[0]];
+        const parent = lane.children[path[1]];
+        const ancestors = getLaneAncestors(lane.children);
+
+        // Place the new subtask after the parent's existing subtasks
+        let index = path[1] + 1;
+        while (index < lane.children.length && ancestors[index].includes(parent)) index++;
+
+        const subtask = update(stateManager.getNewItem('', ' ', true), {
+          data: { parent_id: { $set: ref } },
+        });
+
+        return insertEntity(board, [path[0], index], [subtask]);
+      });
+    },
+
+    setItemParent: (path: Path, parentPath: Path | null) => {
+      stateManager.setState((boardData) =>
+        setItemParent(stateManager, boardData, path, parentPath)
+      );
+    },
+
+    addDependency: (path: Path, dependency: Item) => {
+      stateManager.setState((boardData) => {
+        const dependencyPath = findItemPath(boardData, dependency.id);
+        if (!dependencyPath) return boardData;
+
+        const target = getEntityFromPath(boardData, dependencyPath) as Item;
+        let board = boardData;
+        let id = getItemTaskId(target);
+
+        // The card being depended on needs a 🆔 to reference
+        if (!id) {
+          id = generateInstanceId(6);
+          board = updateEntity(board, dependencyPath, {
+            $set: stateManager.updateItemContent(target, setTaskId(target.data.titleRaw, id)),
+          });
+        }
+
+        const item = getEntityFromPath(board, path) as Item;
+        const ids = getItemDependencyIds(item);
+        if (ids.includes(id)) return board;
+
+        return updateEntity(board, path, {
+          $set: stateManager.updateItemContent(
+            item,
+            setTaskDependencies(item.data.titleRaw, [...ids, id])
+          ),
+        });
+      });
+    },
+
+    removeDependency: (path: Path, dependency: Item) => {
+      stateManager.setState((boardData) => {
+        const id = getItemTaskId(dependency);
+        const item = getEntityFromPath(boardData, path) as Item;
+        const ids = getItemDependencyIds(item);
+        if (!id || !ids.includes(id)) return boardData;
+
+        return updateEntity(boardData, path, {
+          $set: stateManager.updateItemContent(
+            item,
+            setTaskDependencies(item.data.titleRaw, ids.filter((other) => other !== id))
+          ),
+        });
+      });
+    },
+
+    // Moves cards to the top of a lane, keeping their order. Cards already in the lane stay put.
+    moveItems: (paths: Path[], laneIndex: number) => {
+      stateManager.setState((boardData) => {
+        const lane = boardData.children[laneIndex];
+        const moving = paths.filter((path) => path[0] !== laneIndex);
+        const items = moving.map((path) =>
+          stampLaneEntry(stateManager, getEntityFromPath(boardData, path) as Item, lane)
+        );
+
+        return insertEntity(removeItems(boardData, moving), [laneIndex, 0], items);
+      });
+    },
+
+    updateItems: (paths: Path[], transform: (item: Item) => Item | Item[]) => {
+      stateManager.setState((boardData) =>
+        sortPathsForRemoval(paths).reduce((board, path) => {
+          const next = transform(getEntityFromPath(board, path) as Item);
+
+          return updateParentEntity(board, path, {
+            children: {
+              $splice: [[path.last(), 1, ...(Array.isArray(next) ? next : [next])]],
+            },
+          });
+        }, boardData)
+      );
+    },
+
+    archiveItems: (paths: Path[]) => {
+      stateManager.setState((boardData) => {
+        const items = paths.map((path) => getEntityFromPath(boardData, path) as Item);
+
+        try {
+          return update(removeItems(boardData, paths), {
+            data: {
+              archive: {
+                $push: stateManager.getSetting('archive-with-date')
+                  ? items.map(appendArchiveDate)
+                  : items,
+              },
+            },
+          });
+        } catch (e) {
+          stateManager.setError(e);
+          return boardData;
+        }
+      });
+    },
+
+    deleteItems: (paths: Path[]) => {
+      stateManager.setState((boardData) => removeItems(boardData, paths));
+    },
   };
 }
+
+// Last path first, so taking a card out doesn't shift the paths still to be handled
+function sortPathsForRemoval(paths: Path[]) {
+  return [...paths].sort((a, b) => b[0] - a[0] || b[1] - a[1]);
+}
+
+export function removeItems(
+  board: Board,
+  paths: Path[],
+  getReplacement?: (path: Path) => Item | undefined
+): Board {
+  return sortPathsForRemoval(paths).reduce(
+    (board, path) => removeEntity(board, path, getReplacement?.(path)),
+    board
+  );
+}
+
+function findItemPath(board: Board, id: string): Path | null {
+  for (let laneIndex = 0; laneIndex < board.children.length; laneIndex++) {
+    const itemIndex = board.children[laneIndex].children.findIndex((item) => item.id === id);
+    if (itemIndex !== -1) return [laneIndex, itemIndex];
+  }
+
+  return null;
+}
+
+// List boards reference parents by block id, so give the parent one if it doesn't have one yet
+function ensureParentRef(stateManager: StateManager, boardData: Board, parentPath: Path) {
+  const parent = getEntityFromPath(boardData, parentPath) as Item;
+
+  if (parent.data.blockId || stateManager.parser instanceof FolderFormat) {
+    return { board: boardData, ref: getItemRef(parent) };
+  }
+
+  const blockId = generateInstanceId(6);
+
+  return {
+    board: updateEntity(boardData, parentPath, { data: { blockId: { $set: blockId } } }),
+    ref: blockId,
+  };
+}
+
+function isAncestorOf(board: Board, item: Item, candidate: Item) {
+  const items = board.children.reduce<Item[]>((acc, lane) => acc.concat(lane.children), []);
+  const seen = new Set<Item>();
+  let current = candidate;
+
+  while (current && !seen.has(current)) {
+    if (current === item) return true;
+    seen.add(current);
+
+    const parentId = current.data.parent_id;
+    current = parentId
+      ? items.find((other) => other.id === parentId || other.data.blockId === parentId)
+      : null;
+  }
+
+  return false;
+}
+
+export function setItemParent(
+  stateManager: StateManager,
+  boardData: Board,
+  path: Path,
+  parentPath: Path | null
+): Board {
+  const item = getEntityFromPath(boardData, path) as Item;
+
+  if (!parentPath) {
+    if (!item.data.parent_id) return boardData;
+    return updateEntity(boardData, path, { data: { parent_id: { $set: null } } });
+  }
+
+  // Refuse to nest a card under itself or one of its own subtasks
+  const parent = getEntityFromPath(boardData, parentPath) as Item;
+  if (isAncestorOf(boardData, item, parent)) return boardData;
+
+  const { board, ref } = ensureParentRef(stateManager, boardData, parentPath);
+  if (item.data.parent_id === ref) return board;
+
+  return updateEntity(board, path, { data: { parent_id: { $set: ref } } });
+}
+
+const laneEnteredFormat = 'YYYY-MM-DDTHH:mm';
+
+// Records the moment a card moved into a lane. Folder boards keep every transition in the
+// card's frontmatter, list boards keep the latest one as an inline field.
+export function stampLaneEntry(stateManager: StateManager, item: Item, lane: Lane): Item {
+  if (!stateManager.getSetting('track-lane-age')) return item;
+
+  const now = moment();
+
+  // On aggregate boards, the card's own board decides where the history is kept
+  const { parser } = stateManager;
+  const itemParser = parser instanceof AggregateFormat ? parser.getItemParser(item) : parser;
+
+  if (itemParser instanceof FolderFormat) {
+    const history = [...(item.data.metadata.lane_history || [])];
+    const last = history[history.length - 1];
+
+    if (last && !last.left) {
+      history[history.length - 1] = { ...last, left: now.toISOString() };
+    }
+
+    history.push({ lane: lane.data.title, entered: now.toISOString() });
+
+    return update(item, { data: { metadata: { lane_history: { $set: history } } } });
+  }
+
+  return stateManager.updateItemContent(
+    item,
+    setLaneEntered(item.data.titleRaw, now.format(laneEnteredFormat))
+  );
+}
@@ -0,0 +1,309 @@
+import update from 'immutability-helper';
+import { TFile, moment, normalizePath } from 'obsidian';
+import { StateManager } from 'src/StateManager';
+import { t } from 'src/lang/helpers';
+
+import { anyToString } from '../components/Item/MetadataTable';
+import { setItemDate } from '../components/Item/helpers';
+import { getTableData } from '../components/Table/helpers';
+import { escapeRegExpStr, generateInstanceId, getItemTitle } from '../components/helpers';
+import { Item, LaneTemplate } from '../components/types';
+import { FolderFormat } from '../parsers/FolderFormat';
+import { extractInlineFields, setInlineField } from '../parsers/helpers/inlineMetadata';
+import { parseLaneTitle } from '../parsers/helpers/parser';
+import { BoardModifiers } from './boardModifiers';
+
+export type CsvColumnTarget = '' | 'lane' | 'title' | 'date' | 'tags' | 'field';
+
+export interface CsvCard {
+  lane: string;
+  item: Item;
+}
+
+const csvDateFormat = 'YYYY-MM-DD';
+const needsQuotesRegEx = /[",\t\r\n]/;
+const tagSeparatorRegEx = /[\s,]+/;
+const fieldKeyRegEx = /[[\]()]/g;
+
+export function getCsvDelimiter(file: TFile) {
+  return file.extension === 'tsv' ? '\t' : ',';
+}
+
+function escapeCsvField(value: string) {
+  return needsQuotesRegEx.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: string[][], delimiter: string) {
+  return rows.map((row) => row.map(escapeCsvField).join(delimiter)).join('\n');
+}
+
+// Quoted fields can contain the delimiter and line breaks, with quotes written twice
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let isQuoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (isQuoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && !field) {
+      isQuoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+function valueToCsv(stateManager: StateManager, value: any) {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map((v) => anyToString(v, stateManager)).join(', ');
+  return anyToString(value, stateManager);
+}
+
+// The card's first line, without the date, tags and inline fields that have their own columns.
+// Folder boards keep the card's note below its title, which isn't exported.
+function getCsvTitle(
+  stateManager: StateManager,
+  item: Item,
+  hasDate: boolean,
+  hasTags: boolean,
+  fieldKeys: string[]
+) {
+  let title = getItemTitle(item);
+
+  const fields = extractInlineFields(title, true) || [];
+  for (const field of [...fields].reverse()) {
+    if (fieldKeys.includes(field.key)) title = title.slice(0, field.start) + title.slice(field.end);
+  }
+
+  if (hasDate && item.data.metadata.date) {
+    title = setItemDate(stateManager, update(item, { data: { titleRaw: { $set: title } } }), null);
+  }
+
+  if (hasTags) {
+    item.data.metadata.tags?.forEach((tag) => {
+      title = title.replace(new RegExp(`(^|\\s)${escapeRegExpStr(tag)}(?![^\\s])`, 'g'), '');
+    });
+  }
+
+  return title.replace(/\s+/g, ' ').trim();
+}
+
+// The same columns as the table view: list, card, date, tags, and inline and file metadata
+export function boardToCsv(stateManager: StateManager, delimiter: string) {
+  const { items, metadata, inlineMetadata, fileMetadata } = getTableData(
+    stateManager.state,
+    stateManager
+  );
+  const hasDate = metadata.includes('date');
+  const hasTags = metadata.includes('tags');
+
+  const header = [t('List'), t('Card')];
+  if (hasDate) header.push(t('Date'));
+  if (hasTags) header.push(t('Tags'));
+
+  const rows = items.map(({ item, lane }) => {
+    const { date, tags, inlineMetadata: fields, fileMetadata: fileData } = item.data.metadata;
+    const row = [
+      lane.data.title,
+      getCsvTitle(stateManager, item, hasDate, hasTags, inlineMetadata),
+    ];
+
+    if (hasDate) row.push(date ? date.format(csvDateFormat) : '');
+    if (hasTags) row.push(tags?.join(' ') ?? '');
+
+    inlineMetadata.forEach((key) => {
+      row.push(valueToCsv(stateManager, fields?.find((m) => m.key === key)?.value));
+    });
+    fileMetadata.forEach((key) => {
+      row.push(valueToCsv(stateManager, fileData?.[key]?.value));
+    });
+
+    return row;
+  });
+
+  return toCsv([[...header, ...inlineMetadata, ...fileMetadata], ...rows], delimiter);
+}
+
+// Folder boards turn the files in their folder into cards, so their export goes next to it
+export async function exportBoardAsCsv(stateManager: StateManager) {
+  const { app, file } = stateManager;
+  const folder =
+    stateManager.parser instanceof FolderFormat && !file.parent.isRoot()
+      ? file.parent.parent
+      : file.parent;
+  const base = normalizePath(`${folder.path}/${file.basename}`);
+  const path = app.vault.getAvailablePath(base, 'csv');
+
+  await app.vault.create(path, boardToCsv(stateManager, ','));
+  return path;
+}
+
+// Header names that map to a card's list, title, date or tags. Other headers become inline fields.
+const csvColumnNames: Record<string, string[]> = {
+  lane: ['list', 'lane', 'column', 'status'],
+  title: ['card', 'title', 'name', 'task'],
+  date: ['date'],
+  tags: ['tags', 'labels'],
+};
+
+function getCsvColumnLabel(target: string) {
+  switch (target) {
+    case 'lane':
+      return t('List');
+    case 'title':
+      return t('Card');
+    case 'date':
+      return t('Date');
+  }
+
+  return t('Tags');
+}
+
+export function guessCsvColumnTarget(header: string): CsvColumnTarget {
+  const name = header.trim().toLocaleLowerCase();
+  if (!name) return '';
+
+  const target = Object.keys(csvColumnNames).find(
+    (key) =>
+      csvColumnNames[key].includes(name) || getCsvColumnLabel(key).toLocaleLowerCase() === name
+  );
+
+  return target ? (target as CsvColumnTarget) : 'field';
+}
+
+function toTags(value: string) {
+  return value
+    .split(tagSeparatorRegEx)
+    .map((tag) => tag.replace(/^#+/, ''))
+    .filter((tag) => !!tag)
+    .map((tag) => `#${tag}`);
+}
+
+// Builds a card for each row that has a title. Columns mapped to inline fields use their header
+// as the field's key.
+export function getCsvCards(
+  stateManager: StateManager,
+  header: string[],
+  rows: string[][],
+  targets: CsvColumnTarget[]
+): CsvCard[] {
+  const dateFormat = stateManager.getSetting('date-format');
+  const cards: CsvCard[] = [];
+
+  rows.forEach((row) => {
+    let lane = '';
+    let title = '';
+    let date: moment.Moment | null = null;
+    const tags: string[] = [];
+    const fields: [string, string][] = [];
+
+    for (let i = 0; i < targets.length; i++) {
+      const value = (row[i] ?? '').trim();
+      if (!value) continue;
+
+      switch (targets[i]) {
+        case 'lane':
+          lane = value;
+          break;
+        case 'title':
+          title = title ? `${title} ${value}` : value;
+          break;
+        case 'date': {
+          const parsed = moment(value, [csvDateFormat, dateFormat, moment.ISO_8601]);
+          if (parsed.isValid()) date = parsed;
+          break;
+        }
+        case 'tags':
+          tags.push(...toTags(value));
+          break;
+        case 'field': {
+          const key = header[i].replace(fieldKeyRegEx, '').trim();
+          if (key) fields.push([key, value.replace(/\r?\n/g, ' ')]);
+          break;
+        }
+      }
+    }
+
+    if (!title) return;
+
+    let titleRaw = tags.reduce((str, tag) => (str.includes(tag) ? str : `${str} ${tag}`), title);
+    fields.forEach(([key, value]) => {
+      titleRaw = setInlineField(titleRaw, key, value);
+    });
+
+    let item = stateManager.getNewItem(titleRaw, ' ');
+    if (date) {
+      item = stateManager.updateItemContent(item, setItemDate(stateManager, item, date.toDate()));
+    }
+
+    cards.push({ lane, item });
+  });
+
+  return cards;
+}
+
+// Cards go to the list named in their row, which is created when the board doesn't have it yet
+export function importCsvCards(
+  stateManager: StateManager,
+  boardModifiers: BoardModifiers,
+  cards: CsvCard[],
+  defaultLane: string
+) {
+  const byLane = new Map<string, Item[]>();
+
+  cards.forEach(({ lane, item }) => {
+    const title = lane || defaultLane;
+    if (!byLane.has(title)) byLane.set(title, []);
+    byLane.get(title).push(item);
+  });
+
+  byLane.forEach((items, title) => {
+    // A `Todo (5)` list is matched by its title, with the limit applied to new lanes only
+    const data = parseLaneTitle(title);
+    const findLane = () =>
+      stateManager.state.children.findIndex((l) => !l.data.query && l.data.title === data.title);
+
+    if (findLane() < 0) {
+      boardModifiers.addLane({
+        ...LaneTemplate,
+        id: generateInstanceId(),
+        children: [],
+        data,
+      });
+    }
+
+    const laneIndex = findLane();
+    if (laneIndex < 0) return;
+
+    const lane = stateManager.state.children[laneIndex];
+
+    boardModifiers.appendItems([laneIndex, lane.children.length], items);
+  });
+}
@@ -0,0 +1,134 @@
+import update from 'immutability-helper';
+import { KanbanView } from 'src/KanbanView';
+import { StateManager } from 'src/StateManager';
+
+import { sortLane } from '../components/Lane/helpers';
+import { Board, Lane, Perspective } from '../components/types';
+
+export function getPerspectives(stateManager: StateManager): Perspective[] {
+  const perspectives = stateManager.getSetting('perspectives');
+  return Array.isArray(perspectives) ? perspectives.filter((p) => p?.name) : [];
+}
+
+export function getPerspective(stateManager: StateManager, name: string) {
+  return getPerspectives(stateManager).find((p) => p.name === name);
+}
+
+// Captures how the view currently shows the board
+export function getCurrentPerspective(
+  view: KanbanView,
+  stateManager: StateManager,
+  name: string
+): Perspective {
+  const perspective: Perspective = {
+    name,
+    'list-collapse': [...(view.getViewState('list-collapse') || [])],
+    'lane-sort': stateManager.state.children.map((lane) => lane.data.sorted ?? null),
+    'hidden-metadata': [...(view.getViewState('hidden-metadata') || [])],
+  };
+
+  if (view.searchQuery) perspective.search = view.searchQuery;
+
+  return perspective;
+}
+
+// Saving under an existing name replaces that perspective in place
+export function savePerspective(stateManager: StateManager, perspective: Perspective) {
+  stateManager.setState((board) => {
+    const perspectives = board.data.settings.perspectives || [];
+    const index = perspectives.findIndex((p) => p.name === perspective.name);
+
+    return update(board, {
+      data: {
+        settings: {
+          perspectives: {
+            $set:
+              index > -1
+                ? update(perspectives, { [index]: { $set: perspective } })
+                : [...perspectives, perspective],
+          },
+          perspective: { $set: perspective.name },
+        },
+      },
+    });
+  });
+}
+
+export function deletePerspective(view: KanbanView, stateManager: StateManager, name: string) {
+  view.setViewState('perspective', undefined, (): undefined => undefined);
+
+  stateManager.setState((board) =>
+    update(board, {
+      data: {
+        settings: {
+          perspectives: {
+            $set: (board.data.settings.perspectives || []).filter((p) => p.name !== name),
+          },
+          perspective: { $set: undefined },
+        },
+      },
+    })
+  );
+}
+
+// The search goes to the view, while collapsed lists and hidden metadata are also stored on
+// the board, the same way collapsing a list is. Sorting a list reorders its cards.
+export function applyPerspective(
+  view: KanbanView,
+  stateManager: StateManager,
+  perspective: Perspective
+) {
+  const collapse = perspective['list-collapse'] || [];
+  const hidden = perspective['hidden-metadata'] || [];
+  const sorts = perspective['lane-sort'] || [];
+
+  view.setViewState('list-collapse', collapse);
+  view.setViewState('hidden-metadata', hidden);
+  view.setViewState('perspective', perspective.name);
+  view.emitter.emit('setSearch', perspective.search || '');
+
+  stateManager.setState((board) =>
+    update(board, {
+      children: {
+        $apply: (lanes: Lane[]) =>
+          lanes.map((lane, i) => {
+            const sorted = sorts[i];
+            if (sorted === null || sorted === undefined || lane.data.query) return lane;
+
+            return sortLane(stateManager, lane, sorted);
+          }),
+      },
+      data: {
+        settings: {
+          'list-collapse': { $set: collapse },
+          'hidden-metadata': { $set: hidden },
+          perspective: { $set: perspective.name },
+        },
+      },
+    })
+  );
+}
+
+export function toggleHiddenMetadata(view: KanbanView, stateManager: StateManager, key: string) {
+  const hidden = view.getViewState('hidden-metadata') || [];
+  const next = hidden.includes(key) ? hidden.filter((k) => k !== key) : [...hidden, key];
+
+  view.setViewState('hidden-metadata', next);
+  stateManager.setState((board) =>
+    update(board, { data: { settings: { 'hidden-metadata': { $set: next } } } })
+  );
+}
+
+// Every inline field and file metadata key used by the board's cards
+export function getMetadataKeys(board: Board) {
+  const keys = new Set<string>();
+
+  board.children.forEach((lane) => {
+    lane.children.forEach((item) => {
+      item.data.metadata.inlineMetadata?.forEach((m) => keys.add(m.key));
+      item.data.metadata.fileMetadataOrder?.forEach((key) => keys.add(key));
+    });
+  });
+
+  return Array.from(keys).sort();
+}
@@ -0,0 +1,153 @@
+import update from 'immutability-helper';
+import { Notice, TFile } from 'obsidian';
+import { getAPI } from 'obsidian-dataview';
+import { StateManager } from 'src/StateManager';
+import { t } from 'src/lang/helpers';
+
+import { Board, Item, Lane } from '../components/types';
+
+const maxQueryResults = 200;
+const queryRegEx = /^(?:FROM\s+([\s\S]+?))?\s*(?:\bWHERE\s+([\s\S]+))?$/i;
+const taskLineRegEx = /^(\s*(?:[-*+]|\d+[.)])\s+\[)(.)(\]\s+)(.*)$/;
+const blockIdRegEx = /\s+\^[\w-]+\s*$/;
+
+// The parts of a Dataview task that query lists use
+interface QueryTask {
+  path: string;
+  line: number;
+  text: string;
+  status?: string;
+  completed: boolean;
+}
+
+// The Dataview index revision each board's query lists were last filled at
+const filledRevisions = new WeakMap<StateManager, number>();
+
+// Queries follow Dataview's TASK queries: `FROM #urgent WHERE due <= date(today) + dur(7 days)`.
+// The leading TASK is optional, and a query without FROM or WHERE is used as the WHERE clause.
+function parseQuery(query: string) {
+  const str = query.trim().replace(/^TASK\b\s*/i, '');
+  const match = str.match(queryRegEx);
+
+  if (!match || (!match[1] && !match[2])) return { where: str };
+
+  return { source: match[1], where: match[2] };
+}
+
+function getTaskText(str: string) {
+  return str.split('\n')[0].replace(blockIdRegEx, '').trim();
+}
+
+export function canRunQueries() {
+  return !!getAPI();
+}
+
+function getQueryItems(stateManager: StateManager, query: string): Item[] {
+  const dv = getAPI();
+  if (!dv) return [];
+
+  const { source, where } = parseQuery(query);
+  const origin = stateManager.file.path;
+
+  try {
+    const pages = source ? dv.pages(source, origin) : dv.pages();
+    const tasks: QueryTask[] = pages.file.tasks
+      .where((task: QueryTask) => {
+        if (!where) return true;
+
+        const result = dv.evaluate(where, task, origin);
+        return result.successful && !!result.value;
+      })
+      .limit(maxQueryResults)
+      .array();
+
+    return tasks.map((task) => {
+      const item = stateManager.getNewItem(task.text, task.status ?? (task.completed ? 'x' : ' '));
+
+      return update(item, {
+        id: { $set: `${task.path}:${task.line}` },
+        data: {
+          metadata: {
+            querySource: { $set: { path: task.path, line: task.line, text: task.text } },
+          },
+        },
+      });
+    });
+  } catch (e) {
+    console.error('[QueryLanes] Failed to run query:', query, e);
+    return [];
+  }
+}
+
+// Query lists are filled when their query changes, and when the board is loaded from disk
+// after the vault's data has changed. Otherwise they keep the cards they already have.
+export function fillQueryLanes(
+  stateManager: StateManager,
+  board: Board,
+  previous: Board | undefined,
+  shouldRefresh: boolean
+): Board {
+  if (!board?.children.some((lane) => lane.data.query)) return board;
+
+  const revision = getAPI()?.index.revision;
+  const isStale = shouldRefresh && revision !== filledRevisions.get(stateManager);
+  filledRevisions.set(stateManager, revision);
+
+  return update(board, {
+    children: {
+      $apply: (lanes: Lane[]) =>
+        lanes.map((lane) => {
+          if (!lane.data.query) return lane;
+
+          const prevLane = previous?.children.find((l) => l.id === lane.id);
+
+          if (prevLane?.data.query === lane.data.query && !isStale) {
+            // A board read back from disk doesn't hold the cards of its query lists
+            return shouldRefresh ? update(lane, { children: { $set: prevLane.children } }) : lane;
+          }
+
+          return update(lane, {
+            children: { $set: getQueryItems(stateManager, lane.data.query) },
+          });
+        }),
+    },
+  });
+}
+
+// Cards in query lists are written back to the task line they came from. The line is left
+// alone if it no longer holds the same task.
+export function writeQueryItem(stateManager: StateManager, item: Item): Item {
+  const { querySource } = item.data.metadata;
+  const file = stateManager.app.vault.getAbstractFileByPath(querySource.path);
+
+  if (!(file instanceof TFile)) return item;
+
+  const text = item.data.titleRaw.replace(/\s*\n\s*/g, ' ').replace(blockIdRegEx, '').trim();
+
+  stateManager.app.vault
+    .process(file, (content) => {
+      const lines = content.split('\n');
+      const match = lines[querySource.line]?.match(taskLineRegEx);
+
+      if (!match || getTaskText(match[4]) !== getTaskText(querySource.text)) {
+        new Notice(t('This task has changed in its file and was not updated'));
+        return content;
+      }
+
+      const blockId = match[4].match(blockIdRegEx)?.[0] ?? '';
+      lines[querySource.line] = `${match[1]}${item.data.checkChar}${match[3]}${text}${blockId}`;
+
+      return lines.join('\n');
+    })
+    .catch((e) => console.error('[QueryLanes] Failed to update task:', querySource.path, e));
+
+  return update(item, { data: { metadata: { querySource: { text: { $set: text } } } } });
+}
+
+export function openQuerySource(stateManager: StateManager, item: Item) {
+  const { querySource } = item.data.metadata;
+
+  stateManager.app.workspace.openLinkText(querySource.path, stateManager.file.path, false, {
+    eState: { line: querySource.line },
+  });
+}
@@ -0,0 +1,268 @@
+import { moment } from 'obsidian';
+import { StateManager } from 'src/StateManager';
+import { DEFAULT_SYMBOLS, Priority, iconToPriority } from 'src/parsers/helpers/inlineMetadata';
+
+import { anyToString } from '../components/Item/MetadataTable';
+import { Item, Lane } from '../components/types';
+
+export type SearchOperator = '<' | '<=' | '>' | '>=' | '=';
+
+export interface SearchTerm {
+  field?: string;
+  operator?: SearchOperator;
+  value: string;
+  isNegated: boolean;
+}
+
+const termRegEx = /(-?)(?:([\w-]+):(<=|>=|<|>|=)?)?("[^"]*"?|\S+)/g;
+const searchDateRegEx = /\d{4}-\d{2}-\d{2}/;
+const relativeDateRegEx = /^([+-]\d+)([dwmy])$/;
+const searchDateFormat = 'YYYY-MM-DD';
+
+function unquote(str: string) {
+  return str.startsWith('"') ? str.replace(/^"|"$/g, '') : str;
+}
+
+// Searches are made of terms like `tag:#bug`, `due:<2026-11-01`, `lane:"In Progress"` or plain
+// text. Terms separated by spaces all have to match, OR starts a new group of terms, and a
+// leading `-` negates a term. A card matches if any group matches.
+export function parseSearchQuery(query: string): SearchTerm[][] {
+  const groups: SearchTerm[][] = [[]];
+  const str = query.trim();
+  let match: RegExpExecArray | null;
+
+  termRegEx.lastIndex = 0;
+
+  while ((match = termRegEx.exec(str))) {
+    const [, negation, field, operator, rawValue] = match;
+
+    if (!negation && !field && (rawValue === 'OR' || rawValue === '|')) {
+      groups.push([]);
+      continue;
+    }
+
+    const value = unquote(rawValue).toLocaleLowerCase();
+    if (!value) continue;
+
+    groups[groups.length - 1].push({
+      field: field?.toLocaleLowerCase(),
+      operator: operator as SearchOperator,
+      value,
+      isNegated: !!negation,
+    });
+  }
+
+  return groups.filter((terms) => terms.length);
+}
+
+// The words to highlight in matching cards: plain text terms and searched tags
+export function getSearchHighlight(groups: SearchTerm[][]) {
+  const words = new Set<string>();
+
+  groups.forEach((terms) => {
+    terms.forEach(({ field, value, isNegated }) => {
+      if (isNegated) return;
+      if (!field) words.add(value);
+      if (field === 'tag') words.add(value.startsWith('#') ? value : `#${value}`);
+    });
+  });
+
+  return Array.from(words).join(' ');
+}
+
+export function matchesSearch(
+  stateManager: StateManager,
+  groups: SearchTerm[][],
+  item: Item,
+  lane: Lane
+) {
+  return groups.some((terms) =>
+    terms.every((term) => matchesTerm(stateManager, term, item, lane) !== term.isNegated)
+  );
+}
+
+function matchesTerm(stateManager: StateManager, term: SearchTerm, item: Item, lane: Lane) {
+  const { field, operator, value } = term;
+  const { metadata } = item.data;
+
+  switch (field) {
+    case undefined:
+      return item.data.titleSearch.includes(value);
+    case 'tag':
+    case 'tags':
+      return matchesTag(metadata.tags, value);
+    case 'lane':
+    case 'list':
+      return compareText(lane.data.title.toLocaleLowerCase(), value, operator);
+    case 'is':
+      return matchesState(item, value);
+    case 'has':
+      return hasField(item, value);
+    case 'date':
+      return compareValue(stateManager, metadata.time || metadata.date, value, operator);
+    case 'priority':
+      return compareText(getItemPriority(item), value, operator ?? '=');
+  }
+
+  // Any other field is looked up in the card's inline and file metadata. Terms that don't
+  // name a field, like links, still match as plain text.
+  const values = getFieldValues(item, field);
+
+  if (field === 'due' && !values.length && metadata.date) values.push(metadata.date);
+
+  return (
+    values.some((v) => compareValue(stateManager, v, value, operator)) ||
+    item.data.titleSearch.includes(`${field}:${operator ?? ''}${value}`)
+  );
+}
+
+function matchesTag(tags: string[] | undefined, value: string) {
+  const tag = value.startsWith('#') ? value : `#${value}`;
+
+  return !!tags?.some((t) => {
+    const lower = t.toLocaleLowerCase();
+    return lower === tag || lower.startsWith(`${tag}/`);
+  });
+}
+
+function matchesState(item: Item, value: string) {
+  switch (value) {
+    case 'done':
+    case 'complete':
+    case 'completed':
+    case 'checked':
+      return item.data.checked;
+    case 'open':
+    case 'todo':
+    case 'unchecked':
+      return !item.data.checked;
+  }
+
+  return false;
+}
+
+function hasField(item: Item, value: string) {
+  const { metadata } = item.data;
+
+  switch (value) {
+    case 'date':
+      return !!metadata.date;
+    case 'time':
+      return !!metadata.time;
+    case 'tag':
+    case 'tags':
+      return !!metadata.tags?.length;
+    case 'file':
+      return !!metadata.file;
+    case 'priority':
+      return !!getItemPriority(item);
+  }
+
+  return getFieldValues(item, value).length > 0;
+}
+
+// Values of an inline or file metadata field, with the field name given in lower case
+export function getFieldValues(item: Item, field: string) {
+  const { inlineMetadata, fileMetadata } = item.data.metadata;
+  const values: any[] = [];
+
+  inlineMetadata?.forEach((m) => {
+    if (m.key.toLocaleLowerCase() === field) values.push(m.value);
+  });
+
+  if (fileMetadata) {
+    const key = Object.keys(fileMetadata).find((k) => k.toLocaleLowerCase() === field);
+    if (key && fileMetadata[key]?.value !== undefined) values.push(fileMetadata[key].value);
+  }
+
+  return values;
+}
+
+function getItemPriority(item: Item) {
+  const field = item.data.metadata.inlineMetadata?.find((m) => m.key === 'priority');
+  const symbol = Object.values(DEFAULT_SYMBOLS.prioritySymbols).find(
+    (s) => s && item.data.titleRaw.includes(s)
+  );
+  const priority: string = field ? field.value : symbol ? iconToPriority(symbol) : '';
+  const name = Object.keys(Priority).find(
+    (key) => Priority[key as keyof typeof Priority] === priority
+  );
+
+  return (name ?? priority).toLocaleLowerCase();
+}
+
+function compare<T>(a: T, b: T, operator: SearchOperator) {
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+
+  return a === b;
+}
+
+function compareText(str: string, value: string, operator?: SearchOperator) {
+  if (!operator) return str.includes(value);
+  return compare(str, value, operator);
+}
+
+// Dates are searched as `YYYY-MM-DD`, `today`, `tomorrow`, `yesterday` or relative to today
+// like `+7d` and `-2w`
+function getSearchDate(value: string) {
+  const date = value.match(searchDateRegEx);
+  if (date) return date[0];
+
+  switch (value) {
+    case 'today':
+      return moment().format(searchDateFormat);
+    case 'tomorrow':
+      return moment().add(1, 'day').format(searchDateFormat);
+    case 'yesterday':
+      return moment().subtract(1, 'day').format(searchDateFormat);
+  }
+
+  const relative = value.match(relativeDateRegEx);
+  if (!relative) return null;
+
+  const unit = relative[2] as moment.unitOfTime.DurationConstructor;
+  return moment().add(parseInt(relative[1]), unit).format(searchDateFormat);
+}
+
+function toSearchDate(value: any): string | null {
+  if (moment.isMoment(value)) return value.format(searchDateFormat);
+  if (typeof value?.toISODate === 'function') return value.toISODate();
+  return String(value).match(searchDateRegEx)?.[0] ?? null;
+}
+
+function compareValue(
+  stateManager: StateManager,
+  fieldValue: any,
+  value: string,
+  operator?: SearchOperator
+): boolean {
+  if (fieldValue === undefined || fieldValue === null) return false;
+  if (Array.isArray(fieldValue)) {
+    return fieldValue.some((v) => compareValue(stateManager, v, value, operator));
+  }
+
+  const searchDate = getSearchDate(value);
+  const date = searchDate && toSearchDate(fieldValue);
+
+  // Dates compare by day, as `YYYY-MM-DD` strings sort in date order
+  if (date) return compare(date, searchDate, operator ?? '=');
+
+  const str = anyToString(fieldValue, stateManager).toLocaleLowerCase();
+  const num = parseFloat(str);
+  const searchNum = parseFloat(value);
+
+  if (operator && operator !== '=' && !isNaN(num) && !isNaN(searchNum)) {
+    return compare(num, searchNum, operator);
+  }
+
+  return compareText(str, value, operator);
+}
@@ -5,6 +5,7 @@ const en = {
   'Open as kanban board': 'Open as kanban board',
   'Create new board': 'Create new board',
   'Archive completed cards in active board': 'Archive completed cards in active board',
+  'Restore archived card in active board': 'Restore archived card in active board',
   'Error: current file is not a Kanban board': 'Error: current file is not a Kanban board',
   'Convert empty note to Kanban': 'Convert empty note to Kanban',
   'Error: cannot create Kanban, the current note is not empty':
@@ -16,7 +17,14 @@ const en = {
   'View as board': 'View as board',
   'View as list': 'View as list',
   'View as table': 'View as table',
+  'View as report': 'View as report',
+  'View as calendar': 'View as calendar',
   'Board view': 'Board view',
+  'Apply perspective': 'Apply perspective',
+  'Export board as CSV': 'Export board as CSV',
+  'Import cards from CSV': 'Import cards from CSV',
+  'Board exported to': 'Board exported to',
+  'Import board from Trello or GitHub Projects': 'Import board from Trello or GitHub Projects',
 
   // KanbanView.tsx
   'Open as markdown': 'Open as markdown',
@@ -27,6 +35,11 @@ const en = {
     'You may wish to open as markdown and inspect or edit the file.',
   'Are you sure you want to archive all completed cards on this board?':
     'Are you sure you want to archive all completed cards on this board?',
+  Perspectives: 'Perspectives',
+  'Save perspective': 'Save perspective',
+  'Name this perspective': 'Name this perspective',
+  'Delete perspective': 'Delete perspective',
+  'Hide metadata': 'Hide metadata',
 
   // parser.ts
   Complete: 'Complete',
@@ -107,6 +120,9 @@ const en = {
   'Move task data to card footer': 'Move task data to card footer',
   "When toggled, task data (from the Tasks plugin) will be displayed in the card's footer instead of the card's body.":
     "When toggled, task data (from the Tasks plugin) will be displayed in the card's footer instead of the card's body.",
+  'Prevent completing blocked cards': 'Prevent completing blocked cards',
+  'When toggled, cards that depend on unfinished cards (⛔) cannot be moved to a list that marks cards complete. Otherwise a warning is shown.':
+    'When toggled, cards that depend on unfinished cards (⛔) cannot be moved to a list that marks cards complete. Otherwise a warning is shown.',
   'Inline metadata position': 'Inline metadata position',
   'Controls where the inline metadata (from the Dataview plugin) will be displayed.':
     'Controls where the inline metadata (from the Dataview plugin) will be displayed.',
@@ -165,6 +181,14 @@ const en = {
   'Set colors for dates displayed in cards based on the rules below.':
     'Set colors for dates displayed in cards based on the rules below.',
   'Add date color': 'Add date color',
+  'Track time in list': 'Track time in list',
+  'When toggled, cards record when they are moved to another list and show how long they have been in their current list.':
+    'When toggled, cards record when they are moved to another list and show how long they have been in their current list.',
+  'In list for at least': 'In list for at least',
+  'Display card aging colors': 'Display card aging colors',
+  'Set colors for cards based on how long they have been in their list.':
+    'Set colors for cards based on how long they have been in their list.',
+  'Add aging color': 'Add aging color',
 
   // MetadataSettings.tsx
   'Metadata key': 'Metadata key',
@@ -197,6 +221,22 @@ const en = {
   Recurrence: 'Recurrence',
   'Depends on': 'Depends on',
   ID: 'ID',
+  'Group by': 'Group by',
+
+  // components/Table/Cells.tsx
+  Highest: 'Highest',
+  High: 'High',
+  Medium: 'Medium',
+  Low: 'Low',
+  Lowest: 'Lowest',
+
+  // components/Table/grouping.ts
+  'No date': 'No date',
+  Overdue: 'Overdue',
+  'This week': 'This week',
+  Later: 'Later',
+  'No tags': 'No tags',
+  None: 'None',
 
   // components/Item/Item.tsx
   'More options': 'More options',
@@ -211,11 +251,29 @@ const en = {
   'Change date': 'Change date',
   'Change time': 'Change time',
 
+  // components/Item/LaneAge.tsx
+  'In list for': 'In list for',
+
   // components/Item/ItemForm.tsx
   'Card title...': 'Card title...',
   'Add card': 'Add card',
   'Add a card': 'Add a card',
 
+  // parsers/FolderFormat.ts
+  'These card files were removed from the board and will be moved to the trash':
+    'These card files were removed from the board and will be moved to the trash',
+  'Move to trash': 'Move to trash',
+
+  // components/Item/SubtaskProgress.tsx
+  'Show subtasks': 'Show subtasks',
+  'Hide subtasks': 'Hide subtasks',
+
+  // components/Item/BlockedIndicator.tsx
+  'Blocked by': 'Blocked by',
+
+  // components/Item/RestoreArchivedModal.ts
+  'Choose an archived card to restore': 'Choose an archived card to restore',
+
   // components/Item/ItemMenu.ts
   'Edit card': 'Edit card',
   'New note from card': 'New note from card',
@@ -228,6 +286,13 @@ const en = {
   'Add time': 'Add time',
   'Remove time': 'Remove time',
   'Duplicate card': 'Duplicate card',
+  'Add subtask': 'Add subtask',
+  'Remove from parent card': 'Remove from parent card',
+  Blocking: 'Blocking',
+  'Add dependency': 'Add dependency',
+  'Remove dependency': 'Remove dependency',
+  'Choose a card this card depends on': 'Choose a card this card depends on',
+  'Choose a dependency to remove': 'Choose a dependency to remove',
   'Split card': 'Split card',
   'Copy link to card': 'Copy link to card',
   'Insert card before': 'Insert card before',
@@ -236,6 +301,21 @@ const en = {
   'Move to top': 'Move to top',
   'Move to bottom': 'Move to bottom',
   'Move to list': 'Move to list',
+  'Open source file': 'Open source file',
+
+  // components/Item/SelectionMenu.ts
+  'Mark as complete': 'Mark as complete',
+  'Mark as incomplete': 'Mark as incomplete',
+  'Set date': 'Set date',
+  'Tag to add': 'Tag to add',
+  'Remove tag': 'Remove tag',
+  'Delete cards': 'Delete cards',
+  'Delete the selected cards?': 'Delete the selected cards?',
+  'Clear selection': 'Clear selection',
+
+  // components/Kanban.tsx
+  'Selected cards': 'Selected cards',
+  Actions: 'Actions',
 
   // components/Lane/LaneForm.tsx
   'Enter list title...': 'Enter list title...',
@@ -243,6 +323,30 @@ const en = {
   'Add list': 'Add list',
   'Add a list': 'Add a list',
 
+  // components/Lane/Swimlanes.tsx
+  'No swimlane': 'No swimlane',
+
+  // components/Lane/LaneSettings.tsx
+  'When the WIP limit is exceeded': 'When the WIP limit is exceeded',
+  'Only highlight the count': 'Only highlight the count',
+  'Show a warning': 'Show a warning',
+  'Ask for confirmation': 'Ask for confirmation',
+  'Block new cards': 'Block new cards',
+  'WIP limits per tag or assignee': 'WIP limits per tag or assignee',
+  'Fill this list from a Dataview query': 'Fill this list from a Dataview query',
+  'Queries cannot contain %%': 'Queries cannot contain %%',
+
+  // components/Lane/Lane.tsx
+  'No cards match this query': 'No cards match this query',
+  'Query lists need the Dataview plugin': 'Query lists need the Dataview plugin',
+
+  // components/Lane/helpers.ts
+  'This list is at its WIP limit': 'This list is at its WIP limit',
+  'Adding this card goes over the WIP limits of this list.':
+    'Adding this card goes over the WIP limits of this list.',
+  'Add anyway': 'Add anyway',
+  'WIP limit exceeded': 'WIP limit exceeded',
+
   // components/Lane/LaneHeader.tsx
   'Move list': 'Move list',
   Close: 'Close',
@@ -251,6 +355,8 @@ const en = {
   'Are you sure you want to delete this list and all its cards?':
     'Are you sure you want to delete this list and all its cards?',
   'Yes, delete list': 'Yes, delete list',
+  'This list and its cards will also be deleted from these boards':
+    'This list and its cards will also be deleted from these boards',
   'Are you sure you want to archive this list and all its cards?':
     'Are you sure you want to archive this list and all its cards?',
   'Yes, archive list': 'Yes, archive list',
@@ -268,12 +374,81 @@ const en = {
   'Sort by tags': 'Sort by tags',
   'Sort by': 'Sort by',
 
+  // components/helpers.ts
+  'Blocked cards can only be completed once their dependencies are done':
+    'Blocked cards can only be completed once their dependencies are done',
+  'This card is still blocked by': 'This card is still blocked by',
+
   // components/helpers/renderMarkdown.ts
   'Unable to find': 'Unable to find',
   'Open in default app': 'Open in default app',
 
   // components/Editor/MarkdownEditor.tsx
   Submit: 'Submit',
+
+  // components/Report/Report.tsx
+  'Cumulative flow': 'Cumulative flow',
+  'Weekly throughput': 'Weekly throughput',
+  'Lead and cycle time': 'Lead and cycle time',
+  'Lead time': 'Lead time',
+  'Cycle time': 'Cycle time',
+  '50th percentile': '50th percentile',
+  '85th percentile': '85th percentile',
+  '95th percentile': '95th percentile',
+  Cards: 'Cards',
+  days: 'days',
+  'Not enough data yet': 'Not enough data yet',
+  'No cards completed in this period': 'No cards completed in this period',
+
+  // components/Calendar/Calendar.tsx
+  Previous: 'Previous',
+  Next: 'Next',
+  Month: 'Month',
+  Week: 'Week',
+  Unscheduled: 'Unscheduled',
+
+  // helpers/queryLanes.ts
+  'This task has changed in its file and was not updated':
+    'This task has changed in its file and was not updated',
+
+  // components/CsvImportModal.ts
+  'Choose a CSV or TSV file to import': 'Choose a CSV or TSV file to import',
+  'Cards found': 'Cards found',
+  Column: 'Column',
+  Ignore: 'Ignore',
+  'Inline field': 'Inline field',
+  'Default list': 'Default list',
+  'Cards without a list are added to this one.': 'Cards without a list are added to this one.',
+  Import: 'Import',
+  Imported: 'Imported',
+
+  // components/BoardImportModal.ts
+  'Choose a Trello or GitHub Projects JSON export':
+    'Choose a Trello or GitHub Projects JSON export',
+  'This file is not valid JSON': 'This file is not valid JSON',
+  'This file is not a Trello or GitHub Projects export':
+    'This file is not a Trello or GitHub Projects export',
+  'Import board': 'Import board',
+  Source: 'Source',
+  'Board format': 'Board format',
+  'A folder board keeps each card in its own note.':
+    'A folder board keeps each card in its own note.',
+  'Markdown file': 'Markdown file',
+  'Folder of notes': 'Folder of notes',
+  Lists: 'Lists',
+  'Archived cards': 'Archived cards',
+  Subtasks: 'Subtasks',
+  'Cards with a due date': 'Cards with a due date',
+  Warnings: 'Warnings',
+  'Create board': 'Create board',
+  'The board could not be imported': 'The board could not be imported',
+
+  // helpers/boardImport.ts
+  'Untitled list': 'Untitled list',
+  'No status': 'No status',
+  'Ignored an invalid due date': 'Ignored an invalid due date',
+  'Skipped a card without a title': 'Skipped a card without a title',
+  'Skipped a card whose list is missing': 'Skipped a card whose list is missing',
 };
 
 export type Lang = typeof en;
@@ -1,6 +1,7 @@
 import { around } from 'monkey-around';
 import {
   MarkdownView,
+  Notice,
   Platform,
   Plugin,
   TFile,
@@ -15,10 +16,17 @@ import { createApp } from './DragDropApp';
 import { KanbanView, kanbanIcon, kanbanViewType } from './KanbanView';
 import { KanbanSettings, KanbanSettingsTab } from './Settings';
 import { StateManager } from './StateManager';
+import { BoardImportFileModal } from './components/BoardImportModal';
+import { CsvFileModal } from './components/CsvImportModal';
 import { DateSuggest, TimeSuggest } from './components/Editor/suggest';
+import { RestoreArchivedModal } from './components/Item/RestoreArchivedModal';
 import { getParentWindow } from './dnd/util/getWindow';
 import { hasFrontmatterKey } from './helpers';
+import { getBoardModifiers } from './helpers/boardModifiers';
+import { exportBoardAsCsv } from './helpers/csv';
+import { applyPerspective, getPerspective, getPerspectives } from './helpers/perspectives';
 import { t } from './lang/helpers';
+import { AggregateFormat } from './parsers/AggregateFormat';
 import { basicFrontmatter, frontmatterKey } from './parsers/common';
 
 interface WindowRegistry {
@@ -59,6 +67,9 @@ export default class KanbanPlugin extends Plugin {
 
   isShiftPressed: boolean = false;
 
+  // Perspective name => id of its command
+  perspectiveCommands: Map<string, string> = new Map();
+
   async loadSettings() {
     this.settings = Object.assign({}, await this.loadData());
   }
@@ -280,6 +291,7 @@ export default class KanbanPlugin extends Plugin {
           () => {
             console.log('[KanbanPlugin] StateManager cleanup for file:', file.path);
             this.stateManagers.delete(file);
+            this.syncPerspectiveCommands();
           },
           () => this.settings
         )
@@ -539,7 +551,9 @@ export default class KanbanPlugin extends Plugin {
                   .setTitle(t('View as board'))
                   .setSection('pane')
                   .setIcon('lucide-trello')
-                  .setChecked(boardView === 'basic' || boardView === 'board')
+                  .setChecked(
+                    boardView === 'basic' || boardView === 'board' || boardView === 'aggregate'
+                  )
                   .onClick(() => kanbanView.setView('board'))
               )
               .addItem((item) =>
@@ -558,6 +572,22 @@ export default class KanbanPlugin extends Plugin {
                   .setChecked(boardView === 'list')
                   .onClick(() => kanbanView.setView('list'))
               )
+              .addItem((item) =>
+                item
+                  .setTitle(t('View as report'))
+                  .setSection('pane')
+                  .setIcon('lucide-bar-chart-3')
+                  .setChecked(boardView === 'report')
+                  .onClick(() => kanbanView.setView('report'))
+              )
+              .addItem((item) =>
+                item
+                  .setTitle(t('View as calendar'))
+                  .setSection('pane')
+                  .setIcon('lucide-calendar-days')
+                  .setChecked(boardView === 'calendar')
+                  .onClick(() => kanbanView.setView('calendar'))
+              )
               .addItem((item) =>
                 item
                   .setTitle(t('Open board settings'))
@@ -584,7 +614,7 @@ export default class KanbanPlugin extends Plugin {
       (file: TFile) => {
         this.stateManagers.forEach((manager) => {
           if (manager.file !== file) {
-            manager.onFileMetadataChange();
+            manager.onFileMetadataChange(file);
           }
         });
       },
@@ -646,6 +676,61 @@ export default class KanbanPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'restore-archived-card',
+      name: t('Restore archived card in active board'),
+      checkCallback: (checking) => {
+        const activeView = app.workspace.getActiveViewOfType(KanbanView);
+
+        if (!activeView) return false;
+
+        const stateManager = this.stateManagers.get(activeView.file);
+
+        if (!stateManager?.state?.data.archive?.length) return false;
+        if (checking) return true;
+
+        new RestoreArchivedModal(app, stateManager).open();
+      },
+    });
+
+    this.addCommand({
+      id: 'export-board-csv',
+      name: t('Export board as CSV'),
+      checkCallback: (checking) => {
+        const activeView = app.workspace.getActiveViewOfType(KanbanView);
+        const stateManager = activeView && this.stateManagers.get(activeView.file);
+
+        if (!stateManager?.state) return false;
+        if (checking) return true;
+
+        exportBoardAsCsv(stateManager)
+          .then((path) => new Notice(`${t('Board exported to')} ${path}`))
+          .catch((e) => console.error(e));
+      },
+    });
+
+    this.addCommand({
+      id: 'import-board-csv',
+      name: t('Import cards from CSV'),
+      checkCallback: (checking) => {
+        const activeView = app.workspace.getActiveViewOfType(KanbanView);
+        const stateManager = activeView && this.stateManagers.get(activeView.file);
+
+        // Aggregate boards only show cards from other boards
+        if (!stateManager?.state || stateManager.parser instanceof AggregateFormat) return false;
+        if (checking) return true;
+
+        const boardModifiers = getBoardModifiers(activeView, stateManager);
+        new CsvFileModal(app, stateManager, boardModifiers).open();
+      },
+    });
+
+    this.addCommand({
+      id: 'import-trello-github-board',
+      name: t('Import board from Trello or GitHub Projects'),
+      callback: () => new BoardImportFileModal(app, this.settings).open(),
+    });
+
     this.addCommand({
       id: 'toggle-kanban-view',
       name: t('Toggle between Kanban and markdown mode'),
@@ -763,6 +848,38 @@ export default class KanbanPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'view-report',
+      name: t('View as report'),
+      checkCallback: (checking) => {
+        const view = app.workspace.getActiveViewOfType(KanbanView);
+
+        if (checking) {
+          return view && view instanceof KanbanView;
+        }
+
+        if (view && view instanceof KanbanView) {
+          view.setView('report');
+        }
+      },
+    });
+
+    this.addCommand({
+      id: 'view-calendar',
+      name: t('View as calendar'),
+      checkCallback: (checking) => {
+        const view = app.workspace.getActiveViewOfType(KanbanView);
+
+        if (checking) {
+          return view && view instanceof KanbanView;
+        }
+
+        if (view && view instanceof KanbanView) {
+          view.setView('calendar');
+        }
+      },
+    });
+
     this.addCommand({
       id: 'open-board-settings',
       name: t('Open board settings'),
@@ -777,6 +894,49 @@ export default class KanbanPlugin extends Plugin {
     });
   }
 
+  // Perspectives belong to boards, so their commands follow the open boards. A command only
+  // shows up while the active board has a perspective with its name, and is removed once no
+  // open board has one.
+  syncPerspectiveCommands() {
+    const names = new Set<string>();
+    this.stateManagers.forEach((stateManager) => {
+      if (stateManager.state) getPerspectives(stateManager).forEach(({ name }) => names.add(name));
+    });
+
+    this.perspectiveCommands.forEach((id, name) => {
+      if (names.has(name)) return;
+
+      (this.app as any).commands.removeCommand(`${this.manifest.id}:${id}`);
+      this.perspectiveCommands.delete(name);
+    });
+
+    names.forEach((name) => {
+      if (this.perspectiveCommands.has(name)) return;
+
+      // Names that differ only in case or spacing share a slug, so later ones get a suffix
+      const slug = `apply-perspective-${name.trim().toLocaleLowerCase().replace(/\s+/g, '-')}`;
+      const ids = new Set(this.perspectiveCommands.values());
+      let id = slug;
+      for (let i = 2; ids.has(id); i++) id = `${slug}-${i}`;
+
+      this.perspectiveCommands.set(name, id);
+      this.addCommand({
+        id,
+        name: `${t('Apply perspective')}: ${name}`,
+        checkCallback: (checking) => {
+          const view = app.workspace.getActiveViewOfType(KanbanView);
+          const stateManager = view && this.stateManagers.get(view.file);
+          const perspective = stateManager && getPerspective(stateManager, name);
+
+          if (!perspective) return false;
+          if (checking) return true;
+
+          applyPerspective(view, stateManager, perspective);
+        },
+      });
+    });
+  }
+
   registerMonkeyPatches() {
     const self = this;
 
@@ -0,0 +1,9 @@
+import 'obsidian';
+
+// Vault methods the app provides that aren't part of the published API
+declare module 'obsidian' {
+  interface Vault {
+    getConfig(key: string): unknown;
+    getAvailablePath(path: string, extension: string): string;
+  }
+}
@@ -0,0 +1,443 @@
+import update from 'immutability-helper';
+import { EventRef, TAbstractFile, TFile, TFolder, stringifyYaml } from 'obsidian';
+import { KanbanSettings } from 'src/Settings';
+import { StateManager } from 'src/StateManager';
+import { Board, BoardTemplate, Item, Lane } from 'src/components/types';
+
+import { BaseFormat, frontmatterKey, settingsToCodeblock } from './common';
+import { parseMarkdown } from './parseMarkdown';
+
+export const aggregateFormat = 'aggregate';
+export const sourcesKey = 'sources';
+
+// A board loaded in the background that feeds cards into the aggregate board
+interface AggregateSource {
+  file: TFile;
+  stateManager: StateManager;
+  // What the aggregate board last wrote to the source file, so its own writes aren't reloaded
+  data: string;
+}
+
+interface LaneSource {
+  source: AggregateSource;
+  laneId: string;
+}
+
+export function isAggregateBoard(md: string) {
+  const match = md?.match(/^---\s+([\w\W]+?)\s+---/);
+  if (!match) return false;
+
+  return new RegExp(`^${frontmatterKey}:\\s*['"]?${aggregateFormat}['"]?\\s*$`, 'm').test(
+    match[1]
+  );
+}
+
+// Aggregate boards list the boards they merge in their frontmatter. Cards are shown in lanes
+// merged by title, and changes are written back to each card's own board through that
+// board's parser.
+export class AggregateFormat implements BaseFormat {
+  stateManager: StateManager;
+
+  private sources: Map<TFile, AggregateSource> = new Map();
+  private sourceOrder: TFile[] = [];
+  private eventRefs: EventRef[] = [];
+
+  // Where the cards and lanes of the last built board came from
+  private itemSources: Map<string, AggregateSource> = new Map();
+  private laneSources: Map<string, LaneSource[]> = new Map();
+
+  private settings: KanbanSettings = {};
+  private frontmatter: Board['data']['frontmatter'] = {};
+  private isSaving = false;
+
+  constructor(stateManager: StateManager) {
+    this.stateManager = stateManager;
+    this.registerVaultEvents();
+  }
+
+  unload() {
+    this.eventRefs.forEach((ref) => this.stateManager.app.vault.offref(ref));
+    this.eventRefs = [];
+    this.sources.forEach((source) => source.stateManager.parser.unload?.());
+    this.sources.clear();
+  }
+
+  newItem(content: string, checkChar: string, forceEdit?: boolean): Item {
+    return this.getDefaultParser().newItem(content, checkChar, forceEdit);
+  }
+
+  updateItemContent(item: Item, content: string): Item {
+    return this.getItemParser(item).updateItemContent(item, content);
+  }
+
+  // The parser of the board a card belongs to
+  getItemParser(item: Item): BaseFormat {
+    const source = this.itemSources.get(item.id);
+    return source ? source.stateManager.parser : this.getDefaultParser();
+  }
+
+  boardToMd(board: Board): string {
+    this.settings = board.data.settings;
+    this.frontmatter = board.data.frontmatter;
+
+    const owners = this.getItemOwners(board);
+
+    this.isSaving = true;
+    try {
+      this.getSources().forEach((source) => this.saveSource(source, board, owners));
+    } finally {
+      this.isSaving = false;
+    }
+
+    const frontmatter = ['---', '', stringifyYaml(board.data.frontmatter), '---', '', ''].join(
+      '\n'
+    );
+
+    return frontmatter + settingsToCodeblock(board);
+  }
+
+  mdToBoard(md: string): Board {
+    const { settings, frontmatter } = parseMarkdown(this.stateManager, md);
+
+    this.settings = settings || {};
+    this.frontmatter = frontmatter || {};
+    this.sourceOrder = this.resolveSources(this.frontmatter[sourcesKey]);
+
+    this.loadSources()
+      .then((changed) => {
+        if (changed && this.stateManager.state) {
+          this.stateManager.setState(this.buildBoard(), false);
+        }
+      })
+      .catch((error) => {
+        console.error('[AggregateFormat] Failed to load source boards:', error);
+        this.stateManager.setError(error);
+      });
+
+    return this.buildBoard();
+  }
+
+  reparseBoard(): Board {
+    return this.buildBoard();
+  }
+
+  // The source boards a lane of the aggregate board was merged from
+  getLaneBoards(laneId: string): TFile[] {
+    return (this.laneSources.get(laneId) || []).map(({ source }) => source.file);
+  }
+
+  private registerVaultEvents() {
+    const { vault } = this.stateManager.app;
+
+    this.eventRefs.push(
+      vault.on('modify', (file) => {
+        if (file instanceof TFile && this.sources.has(file)) this.handleSourceModify(file);
+      }),
+      vault.on('delete', (file) => {
+        if (file instanceof TFile && this.sources.has(file)) this.handleSourceDelete(file);
+      })
+    );
+  }
+
+  private async handleSourceModify(file: TFile) {
+    const source = this.sources.get(file);
+    const data = await this.stateManager.app.vault.read(file);
+
+    if (!source || data === source.data) return;
+
+    source.data = data;
+    source.stateManager.setState(source.stateManager.getParsedBoard(data), false);
+  }
+
+  private handleSourceDelete(file: TFile) {
+    this.removeSource(file);
+    this.sourceOrder = this.sourceOrder.filter((f) => f !== file);
+
+    if (this.stateManager.state) {
+      this.stateManager.setState(this.buildBoard(), false);
+    }
+  }
+
+  // Sources are links or paths to boards, folders whose boards should all be included, or
+  // globs like `Projects/**/*.md`
+  private resolveSources(raw: unknown): TFile[] {
+    const { vault, metadataCache } = this.stateManager.app;
+    const entries = (Array.isArray(raw) ? raw : raw ? [raw] : []).map((entry) =>
+      String(entry).trim()
+    );
+    const files: TFile[] = [];
+
+    const add = (file: TAbstractFile | null) => {
+      if (file instanceof TFile && this.isSourceBoard(file) && !files.includes(file)) {
+        files.push(file);
+      }
+    };
+
+    entries.forEach((entry) => {
+      if (/[*?]/.test(entry)) {
+        const regEx = globToRegExp(entry);
+        vault.getMarkdownFiles().forEach((file) => {
+          if (regEx.test(file.path)) add(file);
+        });
+        return;
+      }
+
+      const path = entry.replace(/^\[\[|\]\]$/g, '').split('|')[0].replace(/\/$/, '');
+      const folder = vault.getAbstractFileByPath(path);
+
+      if (folder instanceof TFolder) {
+        vault.getMarkdownFiles().forEach((file) => {
+          if (folder.isRoot() || file.path.startsWith(`${folder.path}/`)) add(file);
+        });
+        return;
+      }
+
+      add(metadataCache.getFirstLinkpathDest(path, this.stateManager.file.path));
+    });
+
+    return files;
+  }
+
+  private isSourceBoard(file: TFile) {
+    if (file === this.stateManager.file || file.extension !== 'md') return false;
+
+    const cache = this.stateManager.app.metadataCache.getFileCache(file);
+    const format = cache?.frontmatter?.[frontmatterKey];
+
+    return !!format && format !== aggregateFormat;
+  }
+
+  // Resolves to whether any boards were added or removed
+  private async loadSources(): Promise<boolean> {
+    const { app } = this.stateManager;
+    let changed = false;
+
+    this.sources.forEach((source, file) => {
+      if (this.sourceOrder.includes(file)) return;
+
+      this.removeSource(file);
+      changed = true;
+    });
+
+    for (const file of this.sourceOrder) {
+      if (this.sources.has(file)) continue;
+
+      const data = await app.vault.cachedRead(file);
+      const stateManager = new StateManager(
+        app,
+        null,
+        data,
+        () => {},
+        this.stateManager.getGlobalSettings,
+        file
+      );
+      const source: AggregateSource = { file, stateManager, data };
+
+      // Saves the source board starts itself, e.g. when a folder board updates a parent link
+      stateManager.saveWithoutView = (sourceData) => this.writeSource(source, sourceData);
+
+      // Folder boards finish loading later, and every source reloads on outside edits
+      stateManager.stateReceivers.push(() => this.handleSourceChange(source));
+      this.sources.set(file, source);
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  private removeSource(file: TFile) {
+    const source = this.sources.get(file);
+    if (!source) return;
+
+    source.stateManager.saveWithoutView = null;
+    source.stateManager.parser.unload?.();
+    this.sources.delete(file);
+  }
+
+  private handleSourceChange(source: AggregateSource) {
+    if (this.isSaving || !this.sources.has(source.file) || !this.stateManager.state) return;
+
+    this.stateManager.setState(this.buildBoard(), false);
+  }
+
+  private getSources(): AggregateSource[] {
+    return this.sourceOrder
+      .map((file) => this.sources.get(file))
+      .filter((source) => source && !source.stateManager.hasError());
+  }
+
+  private getDefaultParser(): BaseFormat {
+    const [source] = this.getSources();
+    if (!source) throw new Error('This aggregate board has no source boards');
+
+    return source.stateManager.parser;
+  }
+
+  private buildBoard(): Board {
+    const lanes: Lane[] = [];
+    const archive: Item[] = [];
+
+    this.itemSources.clear();
+    this.laneSources.clear();
+
+    this.getSources().forEach((source) => {
+      const board = source.stateManager.state;
+      if (!board) return;
+
+      board.children.forEach((lane) => {
+        const key = getLaneKey(lane.data.title);
+        let merged = lanes.find((l) => getLaneKey(l.data.title) === key);
+
+        if (!merged) {
+          merged = { ...lane, children: [] };
+          lanes.push(merged);
+          this.laneSources.set(merged.id, []);
+        }
+
+        this.laneSources.get(merged.id).push({ source, laneId: lane.id });
+        lane.children.forEach((item) => this.itemSources.set(item.id, source));
+        merged.children = merged.children.concat(lane.children);
+      });
+
+      // Folder boards that are still loading have no archive yet
+      (board.data.archive || []).forEach((item) => {
+        this.itemSources.set(item.id, source);
+        archive.push(item);
+      });
+    });
+
+    return {
+      ...BoardTemplate,
+      id: this.stateManager.file.path,
+      children: lanes,
+      data: {
+        settings: this.settings,
+        frontmatter: this.frontmatter,
+        archive,
+        errors: [],
+        isSearching: false,
+      },
+    };
+  }
+
+  // Cards keep the board they came from. New cards go to the first board with a lane of the
+  // same title, or to the first source board.
+  private getItemOwners(board: Board): Map<string, AggregateSource> {
+    const [fallback] = this.getSources();
+    const owners: Map<string, AggregateSource> = new Map();
+
+    const assign = (item: Item, laneOwner: AggregateSource) => {
+      const owner = this.itemSources.get(item.id) ?? laneOwner;
+      if (!owner) return;
+
+      owners.set(item.id, owner);
+      this.itemSources.set(item.id, owner);
+    };
+
+    board.children.forEach((lane) => {
+      const laneOwner = this.laneSources.get(lane.id)?.[0]?.source ?? fallback;
+      lane.children.forEach((item) => assign(item, laneOwner));
+    });
+
+    board.data.archive.forEach((item) => assign(item, fallback));
+
+    return owners;
+  }
+
+  private saveSource(source: AggregateSource, board: Board, owners: Map<string, AggregateSource>) {
+    const current = source.stateManager.state;
+    if (!current) return;
+
+    const isOwned = (item: Item) => owners.get(item.id) === source;
+    const [fallback] = this.getSources();
+    const placed = new Set<string>();
+
+    // Lanes keep their order in the source board; a lane removed from the aggregate board is
+    // removed from every board it was merged from
+    const lanes = current.children.reduce<Lane[]>((lanes, lane) => {
+      const merged = board.children.find((l) =>
+        this.laneSources.get(l.id)?.some((s) => s.source === source && s.laneId === lane.id)
+      );
+
+      if (!merged) return lanes;
+
+      placed.add(merged.id);
+      lanes.push(
+        update(lane, {
+          data: { title: { $set: merged.data.title } },
+          children: { $set: merged.children.filter(isOwned) },
+        })
+      );
+
+      return lanes;
+    }, []);
+
+    // Cards moved into a lane this board doesn't have yet bring the lane along
+    board.children.forEach((merged) => {
+      if (placed.has(merged.id)) return;
+
+      const children = merged.children.filter(isOwned);
+      const isNewLane = !this.laneSources.has(merged.id) && source === fallback;
+
+      if (children.length || isNewLane) lanes.push({ ...merged, children });
+    });
+
+    const archive = board.data.archive.filter(isOwned);
+
+    if (isSameBoard(current, lanes, archive)) return;
+
+    const next = update(current, {
+      children: { $set: lanes },
+      data: { archive: { $set: archive } },
+    });
+
+    source.stateManager.setState(next, false);
+
+    this.writeSource(source, source.stateManager.parser.boardToMd(next));
+  }
+
+  private writeSource(source: AggregateSource, data: string) {
+    source.data = data;
+
+    this.stateManager.app.vault.modify(source.file, data).catch((error) => {
+      console.error('[AggregateFormat] Failed to save source board:', source.file.path, error);
+      this.stateManager.setError(error);
+    });
+  }
+}
+
+function getLaneKey(title: string) {
+  return title.trim().toLowerCase();
+}
+
+function isSameItems(a: Item[], b: Item[]) {
+  return a.length === b.length && a.every((item, i) => item === b[i]);
+}
+
+function isSameBoard(board: Board, lanes: Lane[], archive: Item[]) {
+  return (
+    board.children.length === lanes.length &&
+    board.children.every(
+      (lane, i) =>
+        lane.id === lanes[i].id &&
+        lane.data.title === lanes[i].data.title &&
+        isSameItems(lane.children, lanes[i].children)
+    ) &&
+    isSameItems(board.data.archive || [], archive)
+  );
+}
+
+function globToRegExp(glob: string) {
+  const wildcards: Record<string, string> = {
+    '**/': '(?:.*/)?',
+    '**': '.*',
+    '*': '[^/]*',
+    '?': '[^/]',
+  };
+
+  const pattern = glob.replace(/\*\*\/|\*\*|\*|\?|[.+^${}()|[\]\\]/g, (token) =>
+    token in wildcards ? wildcards[token] : `\\${token}`
+  );
+
+  return new RegExp(`^${pattern}$`);
+}
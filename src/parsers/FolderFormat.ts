@@ -1,18 +1,66 @@
-import { TFile, TFolder, parseYaml, stringifyYaml } from 'obsidian';
+import update from 'immutability-helper';
+import { EventRef, TAbstractFile, TFile, TFolder, moment, parseYaml, stringifyYaml } from 'obsidian';
 import { StateManager } from 'src/StateManager';
-import { Board, Item, Lane, BoardTemplate, LaneTemplate, ItemTemplate } from 'src/components/types';
+import {
+  Board,
+  Item,
+  ItemData,
+  ItemMetadata,
+  Lane,
+  LaneSort,
+  BoardTemplate,
+  LaneTemplate,
+  ItemTemplate,
+  WipMode,
+} from 'src/components/types';
+import { confirmAction } from 'src/components/ConfirmModal';
 import { generateInstanceId } from 'src/components/helpers';
+import { diff } from 'src/helpers/patch';
+import { t } from 'src/lang/helpers';
 
-import { BaseFormat, frontmatterKey } from './common';
-import { hydrateBoard } from './helpers/hydrateBoard';
+import { BaseFormat, frontmatterKey, settingsToCodeblock } from './common';
+import { hydrateBoard, hydrateItem } from './helpers/hydrateBoard';
 import { parseMarkdown, parseFragment } from './parseMarkdown';
 import { extractInlineFields } from './helpers/inlineMetadata';
 
 export class FolderFormat implements BaseFormat {
   stateManager: StateManager;
 
+  // Vault event subscriptions that keep the board in sync with its folder
+  private eventRefs: EventRef[] = [];
+
+  // Item files the board is creating itself, which vault events should not re-add
+  private pendingCreates: Set<string> = new Set();
+
+  // What each item file held when it was last loaded or saved, used to skip unchanged items
+  private savedItems: Map<TFile, SavedItem> = new Map();
+
+  // Whether the board from the folder is in state, rather than the placeholder shown while
+  // it loads. Vault events are ignored until then.
+  private isLoaded = false;
+
+  // Item saves run one at a time, so a save never races another or stacks confirmations
+  private saveQueue: Promise<void> = Promise.resolve();
+  private latestSave: Board | null = null;
+
   constructor(stateManager: StateManager) {
     this.stateManager = stateManager;
+    this.registerVaultEvents();
+  }
+
+  unload() {
+    this.eventRefs.forEach((ref) => this.stateManager.app.vault.offref(ref));
+    this.eventRefs = [];
+  }
+
+  // Whether a file or folder lives under this board's folder
+  isInBoardFolder(file: TAbstractFile): boolean {
+    const boardFolder = this.getBoardFolder();
+    if (!boardFolder || file === this.stateManager.file) return false;
+
+    return boardFolder.isRoot()
+      ? file.path !== boardFolder.path
+      : file.path.startsWith(`${boardFolder.path}/`);
   }
 
   newItem(content: string, checkChar: string, forceEdit?: boolean): Item {
@@ -40,6 +88,8 @@ export class FolderFormat implements BaseFormat {
     updated.data = {
       ...updated.data,
       titleRaw: content,
+      titleSearch: content.toLowerCase(),
+      titleSearchRaw: content.toLowerCase(),
     };
     return updated;
   }
@@ -72,12 +122,15 @@ export class FolderFormat implements BaseFormat {
     };
 
     console.log('[FolderFormat] Starting async board loading');
+    this.isLoaded = false;
+
     // Trigger async loading
     this.loadBoardAsync(md).then(loadedBoard => {
       console.log('[FolderFormat] Async loading completed, columns:', loadedBoard.children.length);
       // Update the state manager with the loaded board
       if (this.stateManager.state) {
         this.stateManager.setState(loadedBoard, false);
+        this.isLoaded = true;
       }
     }).catch(error => {
       console.error('[FolderFormat] Failed to load folder structure:', error);
@@ -101,10 +154,13 @@ export class FolderFormat implements BaseFormat {
       },
     };
 
+    this.isLoaded = false;
+
     // Trigger async reloading
     this.reloadBoardAsync().then(loadedBoard => {
       if (this.stateManager.state) {
         this.stateManager.setState(loadedBoard, false);
+        this.isLoaded = true;
       }
     }).catch(error => {
       console.error('Failed to reparse folder structure:', error);
@@ -114,6 +170,264 @@ export class FolderFormat implements BaseFormat {
     return board as Board;
   }
 
+  private registerVaultEvents() {
+    const { vault } = this.stateManager.app;
+
+    this.eventRefs.push(
+      vault.on('create', (file) => {
+        if (this.isInBoardFolder(file)) this.handleFileCreate(file);
+      }),
+      vault.on('modify', (file) => {
+        if (this.isInBoardFolder(file)) this.handleFileModify(file);
+      }),
+      vault.on('delete', (file) => {
+        if (this.isInBoardFolder(file)) this.handleFileDelete(file);
+      }),
+      vault.on('rename', (file, oldPath) => {
+        if (this.isInBoardFolder(file) || this.isBoardPath(oldPath)) {
+          this.handleFileRename(file, oldPath);
+        }
+      })
+    );
+  }
+
+  private isBoardPath(path: string): boolean {
+    const boardFolder = this.getBoardFolder();
+    if (!boardFolder) return false;
+
+    return boardFolder.isRoot() ? true : path.startsWith(`${boardFolder.path}/`);
+  }
+
+  // Returns the column a path belongs to, if it is an item file inside a column folder
+  private getColumnNameForPath(path: string): string | null {
+    return this.getItemFolders(path)?.[0] ?? null;
+  }
+
+  // Returns the folders an item file sits in below the board folder: its column, followed
+  // by its swimlane when the file is inside one of the column's subfolders
+  private getItemFolders(path: string): string[] | null {
+    const boardFolder = this.getBoardFolder();
+    if (!boardFolder || !path.endsWith('.md')) return null;
+
+    const relative = boardFolder.isRoot() ? path : path.slice(boardFolder.path.length + 1);
+    const folders = relative.split('/').slice(0, -1);
+
+    if (folders.length === 1) return folders;
+    if (folders.length === 2 && folders[0] !== archiveFolderName) return folders;
+
+    return null;
+  }
+
+  // Returns the folder name for a path that is a column folder of this board
+  private getColumnFolderName(path: string): string | null {
+    const boardFolder = this.getBoardFolder();
+    if (!boardFolder) return null;
+
+    const relative = boardFolder.isRoot() ? path : path.slice(boardFolder.path.length + 1);
+
+    return relative && !relative.includes('/') ? relative : null;
+  }
+
+  // Whether the board has finished its initial async load. Boards without columns count too.
+  private isBoardLoaded(): boolean {
+    return this.isLoaded && !!this.stateManager.state;
+  }
+
+  private async handleFileCreate(file: TAbstractFile) {
+    if (!this.isBoardLoaded()) return;
+
+    if (file instanceof TFolder) {
+      this.addColumn(file);
+      return;
+    }
+
+    if (!(file instanceof TFile) || this.pendingCreates.has(file.path)) return;
+    if (findItemByFile(this.stateManager.state, file)) return;
+
+    const columnName = this.getColumnNameForPath(file.path);
+    if (!columnName) return;
+
+    const item = await this.readItem(file);
+    if (item) this.insertItem(item, columnName);
+  }
+
+  private async handleFileModify(file: TAbstractFile) {
+    if (!this.isBoardLoaded() || !(file instanceof TFile)) return;
+
+    const location = findItemByFile(this.stateManager.state, file);
+    if (!location) {
+      // Files the board hasn't seen yet, e.g. created while it was saving
+      return this.handleFileCreate(file);
+    }
+
+    const item = await this.readItem(file);
+    if (!item) return;
+
+    this.stateManager.setState((board) => {
+      // The board may have changed while the file was being read
+      const current = findItemByFile(board, file);
+      if (!current) return board;
+
+      const existing = getItemAt(board, current);
+      if (isSameItemContent(existing, item)) return board;
+
+      // Keep the card's identity so the view doesn't remount it
+      const replacement = update(item, { id: { $set: existing.id } });
+
+      if (current.laneIndex === -1) {
+        return update(board, {
+          data: { archive: { [current.itemIndex]: { $set: replacement } } },
+        });
+      }
+
+      const lane = board.children[current.laneIndex];
+      const children = [...lane.children];
+      children[current.itemIndex] = replacement;
+
+      if (getItemOrder(existing) !== getItemOrder(replacement)) {
+        children.sort(compareItemsByOrder);
+      }
+
+      return update(board, {
+        children: { [current.laneIndex]: { children: { $set: children } } },
+      });
+    }, false);
+  }
+
+  private handleFileDelete(file: TAbstractFile) {
+    if (!this.isBoardLoaded()) return;
+
+    if (file instanceof TFolder) {
+      const columnName = this.getColumnFolderName(file.path);
+      if (columnName) this.removeColumn(columnName);
+      return;
+    }
+
+    if (!(file instanceof TFile)) return;
+
+    this.stateManager.setState((board) => {
+      const location = findItemByFile(board, file);
+      return location ? removeItemAt(board, location) : board;
+    }, false);
+  }
+
+  private async handleFileRename(file: TAbstractFile, oldPath: string) {
+    if (!this.isBoardLoaded()) return;
+
+    if (file instanceof TFolder) {
+      const oldName = this.getColumnFolderName(oldPath);
+      const newName = this.isInBoardFolder(file) ? this.getColumnFolderName(file.path) : null;
+
+      if (oldName && newName) {
+        this.renameColumn(oldName, newName);
+      } else if (oldName) {
+        this.removeColumn(oldName);
+      } else if (newName) {
+        this.addColumn(file);
+      }
+      return;
+    }
+
+    if (!(file instanceof TFile)) return;
+
+    const columnName = this.isInBoardFolder(file) ? this.getColumnNameForPath(file.path) : null;
+    const location = findItemByFile(this.stateManager.state, file);
+
+    if (!location) {
+      // Moved into the board from elsewhere
+      if (columnName) await this.handleFileCreate(file);
+      return;
+    }
+
+    if (!columnName) {
+      // Moved out of the board
+      this.stateManager.setState((board) => {
+        const current = findItemByFile(board, file);
+        return current ? removeItemAt(board, current) : board;
+      }, false);
+      return;
+    }
+
+    const currentColumn =
+      location.laneIndex === -1
+        ? archiveFolderName
+        : this.stateManager.state.children[location.laneIndex].data.title;
+
+    this.updateParentReferences(file, oldPath);
+
+    if (currentColumn === columnName) {
+      // Renamed in place, or moved by the board itself; the title may derive from the filename
+      await this.handleFileModify(file);
+      return;
+    }
+
+    const item = await this.readItem(file);
+    if (!item) return;
+
+    this.stateManager.setState((board) => {
+      const current = findItemByFile(board, file);
+      if (!current) return board;
+
+      const existing = getItemAt(board, current);
+      return insertItemInColumn(
+        removeItemAt(board, current),
+        update(item, { id: { $set: existing.id } }),
+        columnName
+      );
+    }, false);
+  }
+
+  private async readItem(file: TFile): Promise<Item | null> {
+    const content = await this.stateManager.app.vault.read(file);
+    const item = await this.loadItemFromFile(file, content);
+
+    return item ? hydrateItem(this.stateManager, item) : null;
+  }
+
+  private insertItem(item: Item, columnName: string) {
+    this.stateManager.setState((board) => {
+      if (findItemByFile(board, item.data.metadata.file)) return board;
+      return insertItemInColumn(board, item, columnName);
+    }, false);
+  }
+
+  private async addColumn(folder: TFolder) {
+    const columnName = this.getColumnFolderName(folder.path);
+    if (!columnName || columnName === archiveFolderName) return;
+
+    const lane = await this.loadColumn(folder);
+    if (!lane) return;
+
+    lane.children.forEach((item) => hydrateItem(this.stateManager, item));
+
+    this.stateManager.setState((board) => {
+      if (board.children.some((l) => l.data.title === columnName)) return board;
+      return update(board, { children: { $push: [lane] } });
+    }, false);
+  }
+
+  private removeColumn(columnName: string) {
+    this.stateManager.setState((board) => {
+      if (columnName === archiveFolderName) {
+        return update(board, { data: { archive: { $set: [] } } });
+      }
+
+      const laneIndex = board.children.findIndex((lane) => lane.data.title === columnName);
+      return laneIndex === -1 ? board : update(board, { children: { $splice: [[laneIndex, 1]] } });
+    }, false);
+  }
+
+  private renameColumn(oldName: string, newName: string) {
+    this.stateManager.setState((board) => {
+      const laneIndex = board.children.findIndex((lane) => lane.data.title === oldName);
+      if (laneIndex === -1) return board;
+
+      return update(board, {
+        children: { [laneIndex]: { data: { title: { $set: newName } } } },
+      });
+    }, false);
+  }
+
   private async loadBoardAsync(md: string): Promise<Board> {
     console.log('[FolderFormat] loadBoardAsync called');
     const boardFolder = this.getBoardFolder();
@@ -180,51 +494,179 @@ export class FolderFormat implements BaseFormat {
         settings: settings,
         frontmatter: frontmatter,
         errors: [] as any[],
+        archive: [] as Item[],
+        swimlanes: [] as string[],
       },
     };
 
     // Find all column folders (any folder at board level, including empty ones)
     const columnFolders = boardFolder.children.filter((child): child is TFolder => {
-      return child instanceof TFolder;
+      return child instanceof TFolder && child.name !== archiveFolderName;
     });
 
+    // Subfolders of the columns are shared across them as swimlanes
+    board.data.swimlanes = getSwimlaneNames(columnFolders);
+
     console.log('[FolderFormat] Found column folders:', columnFolders.map(f => f.name));
 
+    // Columns listed in board.md come first, in order, followed by any
+    // other column folders sorted by name
+    const columnConfigs = parseColumnConfigs(frontmatter[columnsKey]).filter(
+      (config) => config.title !== archiveFolderName
+    );
+    const listedNames = new Set(columnConfigs.map((config) => config.title));
+    const unlistedFolders = columnFolders
+      .filter((folder) => !listedNames.has(folder.name))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const columns = [
+      ...columnConfigs.map((config) => ({
+        config,
+        folder: columnFolders.find((folder) => folder.name === config.title),
+      })),
+      ...unlistedFolders.map((folder) => ({ config: { title: folder.name }, folder })),
+    ];
+
     // Load each column
-    for (const columnFolder of columnFolders) {
-      console.log('[FolderFormat] Loading column:', columnFolder.name);
-      const lane = await this.loadColumn(columnFolder);
+    for (const { config, folder } of columns) {
+      const lane = folder ? await this.loadColumn(folder) : this.createEmptyColumn(config.title);
       if (lane) {
+        applyColumnConfig(lane, config);
         console.log('[FolderFormat] Column loaded with items:', lane.children.length);
         board.children.push(lane);
       }
     }
 
-    // Sort columns by folder name
-    board.children.sort((a: Lane, b: Lane) => a.data.title.localeCompare(b.data.title));
+    // Archived cards live in their own folder, oldest first
+    const archiveFolder = boardFolder.children.find((child): child is TFolder => 
+      child instanceof TFolder && child.name === archiveFolderName
+    );
+
+    if (archiveFolder) {
+      const archiveLane = await this.loadColumn(archiveFolder);
+      board.data.archive = archiveLane.children.sort(compareItemsByArchiveDate);
+    }
+
+    this.savedItems.clear();
+    board.children.forEach((lane: Lane) => {
+      lane.children.forEach((item) => this.rememberSavedItem(item));
+    });
+    board.data.archive.forEach((item) => this.rememberSavedItem(item));
+
+    await this.ensureStableIds(board as Board);
 
     console.log('[FolderFormat] Board loaded with columns:', board.children.length);
     return hydrateBoard(this.stateManager, board as Board);
   }
 
-  private async loadColumn(columnFolder: TFolder): Promise<Lane | null> {
-    console.log('[FolderFormat] Loading column:', columnFolder.name);
-    // Column title is the folder name
-    const columnTitle = columnFolder.name;
+  // Helper method to give every card a unique stored id and point parent_id references
+  // that still use a file name at the parent's id. Changes are written straight to frontmatter.
+  private async ensureStableIds(board: Board): Promise<void> {
+    const items = board.children.reduce(
+      (all, lane) => all.concat(lane.children),
+      [...board.data.archive]
+    );
+    const seenIds = new Set<string>();
+    const toPersist = new Set<Item>();
+
+    for (const item of items) {
+      const storedId = getStoredId((item.data.metadata as Record<string, any>).id);
+
+      if (!storedId || seenIds.has(item.id)) {
+        // Missing, or copied along with a duplicated file
+        item.id = generateInstanceId();
+        toPersist.add(item);
+      }
+
+      seenIds.add(item.id);
+    }
+
+    for (const item of items) {
+      const parent = findParentItem(items, item.data.parent_id);
+
+      if (parent && parent.id !== item.data.parent_id) {
+        item.data.parent_id = parent.id;
+        toPersist.add(item);
+      }
+    }
+
+    for (const item of toPersist) {
+      const file = item.data.metadata.file;
+      if (!(file instanceof TFile)) continue;
 
-    const lane = {
+      try {
+        await this.stateManager.app.fileManager.processFrontMatter(file, (frontmatter) => {
+          frontmatter.id = item.id;
+          frontmatter.parent_id = item.data.parent_id || null;
+        });
+      } catch (error) {
+        console.warn(`[FolderFormat] Failed to store card id in ${file.path}:`, error);
+      }
+    }
+  }
+
+  // Helper method to repoint parent_id references that use a renamed file's old name
+  private updateParentReferences(file: TFile, oldPath: string) {
+    const oldBasename = oldPath.split('/').pop().replace(/\.md$/, '');
+    if (oldBasename === file.basename) return;
+
+    const location = findItemByFile(this.stateManager.state, file);
+    if (!location) return;
+
+    const parent = getItemAt(this.stateManager.state, location);
+    const isReference = (parentId?: string | null) =>
+      !!parentId && parentId !== parent.id && getLinkTarget(parentId) === oldBasename;
+
+    const hasReferences = this.stateManager.state.children.some((lane) =>
+      lane.children.some((item) => isReference(item.data.parent_id))
+    );
+
+    if (!hasReferences) return;
+
+    // Saving writes the updated parent_id back to each child's file
+    this.stateManager.setState((board) =>
+      update(board, {
+        children: {
+          $set: board.children.map((lane) =>
+            update(lane, {
+              children: {
+                $set: lane.children.map((item) =>
+                  isReference(item.data.parent_id)
+                    ? update(item, { data: { parent_id: { $set: parent.id } } })
+                    : item
+                ),
+              },
+            })
+          ),
+        },
+      })
+    );
+  }
+
+  // Helper method to create a lane for a listed column whose folder doesn't exist yet
+  private createEmptyColumn(columnTitle: string): Lane {
+    return {
       ...LaneTemplate,
       id: generateInstanceId(),
       children: [] as any[],
       data: {
         title: columnTitle,
       },
-    };
+    } as Lane;
+  }
 
-    // Load all .md files directly in this folder as items
-    const itemFiles = columnFolder.children.filter((f): f is TFile => 
-      f instanceof TFile && f.extension === 'md'
-    );
+  private async loadColumn(columnFolder: TFolder): Promise<Lane | null> {
+    // Column title is the folder name
+    const lane = this.createEmptyColumn(columnFolder.name);
+
+    // Load all .md files in this folder as items, along with those in its swimlane subfolders
+    const swimlaneFolders = columnFolder.name === archiveFolderName
+      ? []
+      : columnFolder.children.filter((f): f is TFolder => f instanceof TFolder);
+
+    const itemFiles = swimlaneFolders
+      .reduce((files, folder) => files.concat(folder.children), [...columnFolder.children])
+      .filter((f): f is TFile => f instanceof TFile && f.extension === 'md');
 
     console.log('[FolderFormat] Found item files in column:', itemFiles.map(f => f.name));
 
@@ -242,8 +684,8 @@ export class FolderFormat implements BaseFormat {
       }
     }
 
-    // Sort items by filename or add ordering metadata
-    lane.children.sort((a: Item, b: Item) => a.data.titleRaw.localeCompare(b.data.titleRaw));
+    // Sort items by their persisted order, falling back to the title
+    lane.children.sort(compareItemsByOrder);
 
     console.log('[FolderFormat] Column loaded with', lane.children.length, 'items');
     return lane as Lane;
@@ -251,42 +693,55 @@ export class FolderFormat implements BaseFormat {
 
   private async loadItemFromFile(itemFile: TFile, content: string): Promise<Item | null> {
     try {
-      const { frontmatter, ast } = parseMarkdown(this.stateManager, content);
-      
-      // Extract title from frontmatter or first heading or filename
-      let title = frontmatter.title || itemFile.basename;
-      
-      // If no title in frontmatter, try to extract from content
-      if (!frontmatter.title && ast.children.length > 0) {
-        const firstChild = ast.children[0];
-        if (firstChild.type === 'heading') {
-          title = firstChild.children.map(child => 
-            child.type === 'text' ? child.value : ''
-          ).join('');
+      const { frontmatter, body } = splitItemFile(content);
+
+      // Title comes from frontmatter, then a leading heading, then the filename
+      let title: string = frontmatter.title || itemFile.basename;
+      let itemBody = body.trim();
+
+      if (!frontmatter.title) {
+        const headingMatch = itemBody.match(leadingHeadingRegEx);
+        if (headingMatch) {
+          title = headingMatch[2].trim();
+          itemBody = itemBody.slice(headingMatch[0].length).trim();
         }
       }
 
+      // The card holds the title on its first line, followed by the note body
+      const titleRaw = itemBody ? `${title}\n${itemBody}` : title;
+
       // Extract task completion status
       const isCompleted = frontmatter.completed === true || 
                           frontmatter.status === 'completed' ||
                           frontmatter.done === true;
 
+      // Cards keep the id stored in their frontmatter, so identity survives renames and reloads
+      const storedId = getStoredId(frontmatter.id);
+      const parentId = getStoredId(frontmatter.parent_id);
+
+      const metadata: Record<string, any> = { ...frontmatter, file: itemFile };
+
+      // The swimlane is the column subfolder the file lives in
+      const swimlane = this.getItemFolders(itemFile.path)?.[1];
+      if (swimlane) {
+        metadata.swimlane = swimlane;
+      } else {
+        delete metadata.swimlane;
+      }
+
       const item = {
         ...ItemTemplate,
-        id: generateInstanceId(),
+        id: storedId || generateInstanceId(),
         children: [] as any[],
         data: {
           checked: isCompleted,
           checkChar: isCompleted ? 'x' : ' ',
           title: title,
-          titleRaw: title,
-          titleSearch: title.toLowerCase(),
-          titleSearchRaw: title.toLowerCase(),
-          metadata: {
-            ...frontmatter,
-            file: itemFile,
-          },
-          parent_id: frontmatter.parent_id || null,
+          titleRaw: titleRaw,
+          titleSearch: titleRaw.toLowerCase(),
+          titleSearchRaw: titleRaw.toLowerCase(),
+          metadata,
+          parent_id: parentId || null,
         },
       };
 
@@ -301,63 +756,180 @@ export class FolderFormat implements BaseFormat {
     console.log('[FolderFormat] saveBoardStructure called, saving items to disk');
     
     // Save the board metadata to board.md
-    const boardSettings = board.data.settings;
-    const frontmatter = board.data.frontmatter;
-    
-    let content = '---\n';
-    content += stringifyYaml({ [frontmatterKey]: 'board', ...frontmatter });
-    content += '---\n\n';
-    content += '# Board\n\n';
-    content += 'This board uses folder structure for columns and items.\n\n';
-    content += 'Each folder represents a column, and each .md file in the folder represents an item.\n';
-    
+    const content = boardToFolderMd(board);
+
     // Save all items to their correct folders
-    this.saveAllItemsToFolders(board).catch(error => {
-      console.error('[FolderFormat] Failed to save items to folders:', error);
-      this.stateManager.setError(error);
-    });
+    this.queueItemSave(board);
     
     return content;
   }
 
+  // Helper method to save items after any save that is still running. Saves queued behind it
+  // are skipped for the newest one, which writes the board as it is by then, including the
+  // files and orders recorded by the saves before it.
+  private queueItemSave(board: Board) {
+    this.latestSave = board;
+    this.saveQueue = this.saveQueue
+      .then(() =>
+        board === this.latestSave ? this.saveAllItemsToFolders(this.stateManager.state) : undefined
+      )
+      .catch((error) => {
+        console.error('[FolderFormat] Failed to save items to folders:', error);
+        this.stateManager.setError(error);
+      });
+  }
+
   // Helper method to save all items to their correct folders
   private async saveAllItemsToFolders(board: Board): Promise<void> {
     console.log('[FolderFormat] saveAllItemsToFolders called');
     
     // Track which files exist in each column folder
     const existingFiles = new Map<string, Set<string>>();
+
+    // Board items are never changed in place; what a save adds to them is recorded afterwards
+    const written: Item[] = [];
     
     // Process each lane (column)
     for (const lane of board.children) {
+      // Query lists only live in board.md and have no folder of their own
+      if (lane.data.query) continue;
+
       const columnName = lane.data.title;
       console.log(`[FolderFormat] Processing column: ${columnName} with ${lane.children.length} items`);
-      
-      // Track which files should exist in this column
-      const expectedFiles = new Set<string>();
-      
-      // Save each item in this column
-      for (const item of lane.children) {
-        try {
-          await this.saveItemToCorrectFolder(item, columnName);
-          
-          // Track the expected file
-          if (item.data.metadata.file && item.data.metadata.file instanceof TFile) {
-            expectedFiles.add(item.data.metadata.file.name);
-          }
-        } catch (error) {
-          console.error(`[FolderFormat] Failed to save item "${item.data.titleRaw}" to column "${columnName}":`, error);
-        }
-      }
-      
-      // Clean up files that are no longer in this column
-      await this.cleanupColumnFolder(columnName, expectedFiles);
+
+      // Make sure empty columns survive a reload
+      await this.ensureColumnFolder(columnName);
+
+      // Persist the manual card order, if the column has one
+      const orders = getLaneItemOrders(lane.children);
+      const items = lane.children.map((item, i) =>
+        orders[i] === undefined ? item : setItemMetadata(item, { order: orders[i] })
+      );
+
+      const saved = await this.saveColumnItems(items, columnName);
+      existingFiles.set(columnName, getItemPaths(saved));
+      written.push(...saved);
     }
+
+    // Archived cards remember the column they came from so they can be restored
+    const archive = (board.data.archive || []).map((item) => {
+      const file = item.data.metadata.file;
+      const columnName = file instanceof TFile ? this.getColumnNameForPath(file.path) : null;
+
+      return columnName && columnName !== archiveFolderName
+        ? setItemMetadata(item, { archived_from: columnName, archived_at: moment().toISOString() })
+        : item;
+    });
+
+    // The placeholder board has no lanes or archive yet, so leave the archive folder alone
+    if (this.isBoardLoaded()) {
+      const saved = await this.saveColumnItems(archive, archiveFolderName);
+      existingFiles.set(archiveFolderName, getItemPaths(saved));
+      written.push(...saved);
+    }
+
+    this.recordSavedItems(board, written);
+
+    // Clean up files only once every item has been moved to its new column,
+    // so a card moved to an earlier column isn't removed before it is moved
+    const filesToRemove: TFile[] = [];
+    for (const [columnName, expectedFiles] of existingFiles) {
+      filesToRemove.push(...this.findOrphanedFiles(columnName, expectedFiles));
+    }
+
+    await this.trashOrphanedFiles(filesToRemove);
     
     console.log('[FolderFormat] saveAllItemsToFolders completed');
   }
 
-  // Helper method to save an item to the correct folder (handles moves)
-  private async saveItemToCorrectFolder(item: Item, newColumnName: string): Promise<void> {
+  // Helper method to save a column's items, returning them as saved, along with their files
+  private async saveColumnItems(items: Item[], columnName: string): Promise<Item[]> {
+    const written: Item[] = [];
+
+    for (const item of items) {
+      try {
+        const file = await this.saveItemToCorrectFolder(item, columnName);
+        const saved = setItemMetadata(item, { file });
+
+        this.rememberSavedItem(saved);
+        written.push(saved);
+      } catch (error) {
+        console.error(`[FolderFormat] Failed to save item "${item.data.titleRaw}" to column "${columnName}":`, error);
+      }
+    }
+
+    return written;
+  }
+
+  // Helper method to copy the files, orders and archive details a save wrote into the board
+  // state, so the next save starts from them. Cards changed since are updated where they are.
+  private recordSavedItems(board: Board, written: Item[]) {
+    const boardItems = new Set(
+      board.children.reduce((all, lane) => all.concat(lane.children), board.data.archive || [])
+    );
+    const changed = new Map<string, ItemMetadata>();
+
+    written.forEach((item) => {
+      if (!boardItems.has(item)) changed.set(item.id, item.data.metadata);
+    });
+
+    if (changed.size) {
+      const record = (items: Item[]) => {
+        const recorded = items.map((item) => {
+          const metadata = changed.get(item.id);
+          if (!metadata) return item;
+
+          const { file, order, archived_from, archived_at } = metadata;
+          const saved: Partial<ItemMetadata> = { file };
+
+          if (order !== undefined) saved.order = order;
+          if (archived_from) Object.assign(saved, { archived_from, archived_at });
+
+          return setItemMetadata(item, saved);
+        });
+
+        return recorded.every((item, i) => item === items[i]) ? items : recorded;
+      };
+
+      this.stateManager.setState((current) => {
+        const children = current.children.map((lane) => {
+          const items = record(lane.children);
+          return items === lane.children ? lane : update(lane, { children: { $set: items } });
+        });
+
+        return update(current, {
+          children: { $set: children },
+          data: { archive: { $set: record(current.data.archive || []) } },
+        });
+      }, false);
+    }
+
+    // New files are in the board state now, so vault events will find them
+    written.forEach((item) => this.pendingCreates.delete(item.data.metadata.file.path));
+  }
+
+  // Helper method to record the item data that was just written to (or read from) its file
+  private rememberSavedItem(item: Item) {
+    const file = item.data.metadata.file;
+    if (!(file instanceof TFile)) return;
+
+    this.savedItems.set(file, { data: item.data, order: getItemOrder(item) });
+  }
+
+  // Helper method to check whether an item differs from what was last saved to its file
+  private hasItemChanged(item: Item, file: TFile): boolean {
+    const saved = this.savedItems.get(file);
+    if (!saved) return true;
+
+    // The order is computed during saves, so it's compared separately
+    if (saved.order !== getItemOrder(item)) return true;
+    if (saved.data === item.data) return false;
+
+    return diff(saved.data, item.data, (path) => generatedKeys.includes(path.last())).length > 0;
+  }
+
+  // Helper method to save an item to the correct folder (handles moves), returning its file
+  private async saveItemToCorrectFolder(item: Item, newColumnName: string): Promise<TFile> {
     console.log(`[FolderFormat] saveItemToCorrectFolder: "${item.data.titleRaw}" to column "${newColumnName}"`);
     
     const boardFolder = this.getBoardFolder();
@@ -365,87 +937,138 @@ export class FolderFormat implements BaseFormat {
       throw new Error('Board folder not found');
     }
 
+    const folderName = getItemFolderName(item, newColumnName);
+
     // If item has an existing file, we need to move it
     if (item.data.metadata.file && item.data.metadata.file instanceof TFile) {
       const existingFile = item.data.metadata.file;
-      const currentColumnName = existingFile.parent?.name;
+      const currentFolderName = this.getItemFolders(existingFile.path)?.join('/');
       
-      console.log(`[FolderFormat] Item has existing file: ${existingFile.path}, current column: ${currentColumnName}`);
-      
-      // If the item is already in the correct column, just update its content
-      if (currentColumnName === newColumnName) {
+      // If the item is already in the correct folder, just update its content
+      if (currentFolderName === folderName) {
+        if (!this.hasItemChanged(item, existingFile)) {
+          return existingFile;
+        }
+
         console.log(`[FolderFormat] Item already in correct column, updating content`);
         await this.updateItemFileContent(item, existingFile);
-        return;
+        return existingFile;
       }
       
-      // Otherwise, move the file to the new column
-      await this.moveItemToNewColumn(item, existingFile, newColumnName);
-    } else {
-      // Create a new file for this item
-      await this.createNewItemFile(item, newColumnName);
+      // Otherwise, move the file to the new column or swimlane
+      return this.moveItemToNewColumn(item, existingFile, folderName);
     }
+
+    // Create a new file for this item
+    return this.createNewItemFile(item, folderName);
   }
 
-  // Helper method to clean up files that are no longer in a column
-  private async cleanupColumnFolder(columnName: string, expectedFiles: Set<string>): Promise<void> {
-    console.log(`[FolderFormat] cleanupColumnFolder: ${columnName}`);
-    
+  // Helper method to find a folder below the board folder, creating it if it doesn't exist yet
+  private async getOrCreateFolder(folderName: string): Promise<TFolder> {
+    const boardFolder = this.getBoardFolder();
+    if (!boardFolder) {
+      throw new Error('Board folder not found');
+    }
+
+    const folderPath = boardFolder.isRoot() ? folderName : `${boardFolder.path}/${folderName}`;
+    const folder = this.stateManager.app.vault.getAbstractFileByPath(folderPath);
+    if (folder instanceof TFolder) return folder;
+
+    return this.stateManager.app.vault.createFolder(folderPath);
+  }
+
+  // Helper method to create a column folder if it doesn't exist yet
+  private async ensureColumnFolder(columnName: string): Promise<void> {
     const boardFolder = this.getBoardFolder();
     if (!boardFolder) return;
+
+    const columnFolder = boardFolder.children.find((child): child is TFolder => 
+      child instanceof TFolder && child.name === columnName
+    );
+
+    if (!columnFolder) {
+      await this.stateManager.app.vault.createFolder(`${boardFolder.path}/${columnName}`);
+    }
+  }
+
+  // Helper method to find files that are no longer in a column. Only files the board
+  // has loaded or saved itself are considered, so notes added by hand are never removed.
+  private findOrphanedFiles(columnName: string, expectedFiles: Set<string>): TFile[] {
+    const boardFolder = this.getBoardFolder();
+    if (!boardFolder) return [];
     
     const columnFolder = boardFolder.children.find((child): child is TFolder => 
       child instanceof TFolder && child.name === columnName
     );
     
-    if (!columnFolder) return;
+    if (!columnFolder) return [];
     
-    // Find files that are in the folder but not expected
+    // Cards in swimlanes live one folder further down
+    const folders = [columnFolder];
+    if (columnName !== archiveFolderName) {
+      folders.push(...columnFolder.children.filter((child): child is TFolder => child instanceof TFolder));
+    }
+
+    // Find files that are in the folders but not expected
     const filesToRemove: TFile[] = [];
-    for (const child of columnFolder.children) {
-      if (child instanceof TFile && child.extension === 'md') {
-        if (!expectedFiles.has(child.name)) {
-          filesToRemove.push(child);
+    for (const folder of folders) {
+      for (const child of folder.children) {
+        if (child instanceof TFile && child.extension === 'md') {
+          if (!expectedFiles.has(child.path) && this.savedItems.has(child)) {
+            filesToRemove.push(child);
+          }
         }
       }
     }
-    
-    // Remove orphaned files (these were moved to other columns)
-    for (const file of filesToRemove) {
-      console.log(`[FolderFormat] Removing orphaned file: ${file.path}`);
+
+    return filesToRemove;
+  }
+
+  // Helper method to move removed cards' files to the trash, confirming large removals first
+  private async trashOrphanedFiles(files: TFile[]): Promise<void> {
+    if (!files.length) return;
+
+    const { app } = this.stateManager;
+
+    if (files.length > deleteConfirmThreshold) {
+      const confirmed = await confirmAction(
+        app,
+        `${t('These card files were removed from the board and will be moved to the trash')}: ${files.length}`,
+        t('Move to trash'),
+        files.map((file) => file.path)
+      );
+
+      if (!confirmed) {
+        // Declined files are left alone from now on, like notes added by hand
+        files.forEach((file) => this.savedItems.delete(file));
+        return;
+      }
+    }
+
+    // Respect the vault's trash preference, but never delete outright
+    const useSystemTrash = app.vault.getConfig('trashOption') === 'system';
+
+    for (const file of files) {
       try {
-        await this.stateManager.app.vault.delete(file);
+        await app.vault.trash(file, useSystemTrash);
+        this.savedItems.delete(file);
       } catch (error) {
-        console.warn(`[FolderFormat] Failed to delete orphaned file ${file.path}:`, error);
+        console.warn(`[FolderFormat] Failed to trash orphaned file ${file.path}:`, error);
       }
     }
   }
 
-  // Helper method to move an item to a new column
-  private async moveItemToNewColumn(item: Item, existingFile: TFile, newColumnName: string): Promise<void> {
-    console.log(`[FolderFormat] Moving item from ${existingFile.path} to column ${newColumnName}`);
-    
-    const boardFolder = this.getBoardFolder();
-    if (!boardFolder) {
-      throw new Error('Board folder not found');
-    }
-    
-    // Find or create the target column folder
-    let targetColumnFolder = boardFolder.children.find((child): child is TFolder => 
-      child instanceof TFolder && child.name === newColumnName
-    );
-    
-    if (!targetColumnFolder) {
-      console.log(`[FolderFormat] Creating new column folder: ${newColumnName}`);
-      targetColumnFolder = await this.stateManager.app.vault.createFolder(
-        `${boardFolder.path}/${newColumnName}`
-      );
-    }
+  // Helper method to move an item to a new column, or a swimlane folder within one, returning
+  // the moved file
+  private async moveItemToNewColumn(item: Item, existingFile: TFile, folderName: string): Promise<TFile> {
+    // Find or create the target folder
+    const targetColumnFolder = await this.getOrCreateFolder(folderName);
     
     // Create new path for the file
     const newPath = `${targetColumnFolder.path}/${existingFile.name}`;
     
     // Check if a file with the same name already exists in the target folder
+    let movedPath: string;
     const existingTargetFile = this.stateManager.app.vault.getAbstractFileByPath(newPath);
     if (existingTargetFile && existingTargetFile !== existingFile) {
       // Generate a unique filename
@@ -461,111 +1084,63 @@ export class FolderFormat implements BaseFormat {
       
       console.log(`[FolderFormat] Target file exists, using unique name: ${uniquePath}`);
       await this.stateManager.app.fileManager.renameFile(existingFile, uniquePath);
-      // Update the item metadata to point to the new file
-      const newFile = this.stateManager.app.vault.getAbstractFileByPath(uniquePath) as TFile;
-      item.data.metadata.file = newFile;
+      movedPath = uniquePath;
     } else {
       // Move the file
       console.log(`[FolderFormat] Renaming file from ${existingFile.path} to ${newPath}`);
       await this.stateManager.app.fileManager.renameFile(existingFile, newPath);
-      // Update the item metadata to point to the moved file
-      const movedFile = this.stateManager.app.vault.getAbstractFileByPath(newPath) as TFile;
-      item.data.metadata.file = movedFile;
+      movedPath = newPath;
     }
     
     // Update the file content with current item data
-    const currentFile = item.data.metadata.file as TFile;
-    await this.updateItemFileContent(item, currentFile);
+    const movedFile = this.stateManager.app.vault.getAbstractFileByPath(movedPath) as TFile;
+    await this.updateItemFileContent(item, movedFile);
+
+    return movedFile;
   }
 
-  // Helper method to create a new item file
-  private async createNewItemFile(item: Item, columnName: string): Promise<void> {
-    console.log(`[FolderFormat] Creating new item file for "${item.data.titleRaw}" in column "${columnName}"`);
+  // Helper method to create a new item file in a column or swimlane folder. The path stays
+  // pending until the save records the file in the board state.
+  private async createNewItemFile(item: Item, folderName: string): Promise<TFile> {
+    // Find or create the target folder
+    const columnFolder = await this.getOrCreateFolder(folderName);
     
-    const boardFolder = this.getBoardFolder();
-    if (!boardFolder) {
-      throw new Error('Board folder not found');
-    }
-    
-    // Find or create the column folder
-    let columnFolder = boardFolder.children.find((child): child is TFolder => 
-      child instanceof TFolder && child.name === columnName
-    );
-    
-    if (!columnFolder) {
-      console.log(`[FolderFormat] Creating new column folder: ${columnName}`);
-      columnFolder = await this.stateManager.app.vault.createFolder(
-        `${boardFolder.path}/${columnName}`
-      );
-    }
-    
-    // Create filename from title, sanitized for filesystem
-    const sanitizedTitle = item.data.titleRaw.replace(/[^a-zA-Z0-9\s-_]/g, '').trim();
-    let filename = `${sanitizedTitle || 'untitled'}.md`;
+    const baseName = getItemFileBasename(item);
+    let filename = `${baseName}.md`;
     let filePath = `${columnFolder.path}/${filename}`;
     
     // Ensure unique filename
     let counter = 1;
     while (this.stateManager.app.vault.getAbstractFileByPath(filePath)) {
-      const baseName = sanitizedTitle || 'untitled';
       filename = `${baseName}_${counter}.md`;
       filePath = `${columnFolder.path}/${filename}`;
       counter++;
     }
     
     // Create file content
-    const fileContent = this.generateItemFileContent(item);
+    const fileContent = serializeItemFile(item, null, filename.replace(/\.md$/, ''));
     
     // Create the file
     console.log(`[FolderFormat] Creating file: ${filePath}`);
-    const newFile = await this.stateManager.app.vault.create(filePath, fileContent);
-    
-    // Update item metadata to reference the new file
-    item.data.metadata.file = newFile;
+    this.pendingCreates.add(filePath);
+    try {
+      return await this.stateManager.app.vault.create(filePath, fileContent);
+    } catch (error) {
+      this.pendingCreates.delete(filePath);
+      throw error;
+    }
   }
 
   // Helper method to update an existing item file's content
   private async updateItemFileContent(item: Item, file: TFile): Promise<void> {
-    const newContent = this.generateItemFileContent(item);
-    console.log(`[FolderFormat] Updating content for file: ${file.path}`);
-    await this.stateManager.app.vault.modify(file, newContent);
-  }
+    const { vault } = this.stateManager.app;
+    const existing = await vault.read(file);
+    const newContent = serializeItemFile(item, existing, file.basename);
 
-  // Helper method to generate file content for an item
-  private generateItemFileContent(item: Item): string {
-    const frontmatter: Record<string, any> = {
-      ...item.data.metadata,
-    };
-    
-    // Set completion status
-    if (item.data.checkChar === 'x') {
-      frontmatter.completed = true;
-    } else {
-      delete frontmatter.completed;
-    }
-    
-    // Add required properties
-    frontmatter.parent_id = item.data.parent_id || null;
-    frontmatter.aliases = frontmatter.aliases || [];
-    frontmatter.tags = frontmatter.tags || [];
-    
-    // Set id to filename (without extension) if item has a file
-    if (item.data.metadata.file && item.data.metadata.file instanceof TFile) {
-      frontmatter.id = item.data.metadata.file.basename;
-    } else {
-      // For new items, we'll need to determine the filename first
-      const sanitizedTitle = item.data.titleRaw.replace(/[^a-zA-Z0-9\s-_]/g, '').trim();
-      frontmatter.id = sanitizedTitle || 'untitled';
-    }
-    
-    // Remove the file reference from frontmatter to avoid circular reference
-    delete frontmatter.file;
-    
-    let fileContent = '---\n';
-    fileContent += stringifyYaml(frontmatter);
-    fileContent += '---\n\n';
-    
-    return fileContent;
+    // Skip writes that wouldn't change the file, to avoid mtime churn and sync conflicts
+    if (newContent === existing) return;
+
+    await vault.modify(file, newContent);
   }
 
   // Helper method to save an item to its file
@@ -592,50 +1167,486 @@ export class FolderFormat implements BaseFormat {
     if (item.data.metadata.file && item.data.metadata.file instanceof TFile) {
       filename = item.data.metadata.file.name;
     } else {
-      // Create filename from title, sanitized for filesystem
-      const sanitizedTitle = item.data.titleRaw.replace(/[^a-zA-Z0-9\s-_]/g, '').trim();
-      filename = `${sanitizedTitle || 'untitled'}.md`;
+      filename = `${getItemFileBasename(item)}.md`;
     }
 
     const filePath = `${columnFolder.path}/${filename}`;
-
-    // Create file content
-    const frontmatter: Record<string, any> = {
-      ...item.data.metadata,
-    };
-
-    // Set completion status
-    if (item.data.checkChar === 'x') {
-      frontmatter.completed = true;
-    }
-
-    // Add required properties
-    frontmatter.parent_id = item.data.parent_id || null;
-    frontmatter.aliases = frontmatter.aliases || [];
-    frontmatter.tags = frontmatter.tags || [];
-    
-    // Set id to filename (without extension)
-    const filenameWithoutExt = filename.replace(/\.md$/, '');
-    frontmatter.id = filenameWithoutExt;
-
-    // Remove the file reference from frontmatter to avoid circular reference
-    delete frontmatter.file;
-
-    let fileContent = '---\n';
-    fileContent += stringifyYaml(frontmatter);
-    fileContent += '---\n\n';
+    const basename = filename.replace(/\.md$/, '');
 
     // Save or update the file
     try {
       const existingFile = this.stateManager.app.vault.getAbstractFileByPath(filePath);
       if (existingFile instanceof TFile) {
-        await this.stateManager.app.vault.modify(existingFile, fileContent);
+        await this.stateManager.app.vault.process(existingFile, (existing) =>
+          serializeItemFile(item, existing, basename)
+        );
       } else {
-        await this.stateManager.app.vault.create(filePath, fileContent);
+        this.pendingCreates.add(filePath);
+        try {
+          item.data.metadata.file = await this.stateManager.app.vault.create(
+            filePath,
+            serializeItemFile(item, null, basename)
+          );
+        } finally {
+          this.pendingCreates.delete(filePath);
+        }
       }
     } catch (error) {
       console.error(`Failed to save item to ${filePath}:`, error);
       throw error;
     }
   }
-}
\ No newline at end of file
+}
+
+interface SavedItem {
+  data: ItemData;
+  order?: number;
+}
+
+// Item data that is derived at load time and never written to the item file
+const generatedKeys: Array<string | number> = [
+  'id',
+  'date',
+  'time',
+  'titleSearch',
+  'titleSearchRaw',
+  'file',
+];
+
+function getStoredId(value: unknown): string | null {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+// parent_id may be an id, a file name or a wikilink to the parent's file
+function getLinkTarget(value: string): string {
+  return value
+    .replace(/^\[\[|\]\]$/g, '')
+    .split('|')[0]
+    .split('/')
+    .pop()
+    .replace(/\.md$/, '');
+}
+
+function findParentItem(items: Item[], parentId?: string | null): Item | null {
+  if (!parentId) return null;
+
+  const byId = items.find((item) => item.id === parentId);
+  if (byId) return byId;
+
+  const target = getLinkTarget(parentId);
+  return (
+    items.find((item) => {
+      const file = item.data.metadata.file;
+      return file instanceof TFile && file.basename === target;
+    }) || null
+  );
+}
+
+// Where an item sits in the board; a laneIndex of -1 means the archive
+interface ItemLocation {
+  laneIndex: number;
+  itemIndex: number;
+}
+
+function findItemByFile(board: Board, file: TFile): ItemLocation | null {
+  if (!board || !file) return null;
+
+  for (let laneIndex = 0; laneIndex < board.children.length; laneIndex++) {
+    const itemIndex = board.children[laneIndex].children.findIndex(
+      (item) => item.data.metadata.file === file
+    );
+    if (itemIndex !== -1) return { laneIndex, itemIndex };
+  }
+
+  const archiveIndex = (board.data.archive || []).findIndex(
+    (item) => item.data.metadata.file === file
+  );
+
+  return archiveIndex === -1 ? null : { laneIndex: -1, itemIndex: archiveIndex };
+}
+
+function getItemAt(board: Board, location: ItemLocation): Item {
+  return location.laneIndex === -1
+    ? board.data.archive[location.itemIndex]
+    : board.children[location.laneIndex].children[location.itemIndex];
+}
+
+function removeItemAt(board: Board, location: ItemLocation): Board {
+  if (location.laneIndex === -1) {
+    return update(board, { data: { archive: { $splice: [[location.itemIndex, 1]] } } });
+  }
+
+  return update(board, {
+    children: { [location.laneIndex]: { children: { $splice: [[location.itemIndex, 1]] } } },
+  });
+}
+
+// Inserts an item where the persisted order would place it, without reordering its neighbours
+function insertItemInColumn(board: Board, item: Item, columnName: string): Board {
+  if (columnName === archiveFolderName) {
+    return update(board, { data: { archive: { $push: [item] } } });
+  }
+
+  const laneIndex = board.children.findIndex((lane) => lane.data.title === columnName);
+  if (laneIndex === -1) return board;
+
+  const children = board.children[laneIndex].children;
+  const index = children.findIndex((child) => compareItemsByOrder(item, child) < 0);
+
+  return update(board, {
+    children: {
+      [laneIndex]: {
+        children: { $splice: [[index === -1 ? children.length : index, 0, item]] },
+      },
+    },
+  });
+}
+
+// Compares what the file says about an item, ignoring generated and runtime values
+function isSameItemContent(a: Item, b: Item): boolean {
+  const storedMetadata = (item: Item) => {
+    const metadata: Record<string, any> = { ...item.data.metadata };
+    delete metadata.file;
+    delete metadata.date;
+    delete metadata.time;
+    return JSON.stringify(metadata);
+  };
+
+  return (
+    a.data.titleRaw === b.data.titleRaw &&
+    a.data.checkChar === b.data.checkChar &&
+    (a.data.parent_id || null) === (b.data.parent_id || null) &&
+    storedMetadata(a) === storedMetadata(b)
+  );
+}
+
+function getItemPaths(items: Item[]): Set<string> {
+  return new Set(items.map((item) => item.data.metadata.file.path));
+}
+
+// Returns the item with the given metadata, or the item itself if that changes nothing
+function setItemMetadata(item: Item, metadata: Partial<ItemMetadata>): Item {
+  const keys = Object.keys(metadata) as Array<keyof ItemMetadata>;
+  if (keys.every((key) => item.data.metadata[key] === metadata[key])) return item;
+
+  return update(item, { data: { metadata: { $merge: metadata } } });
+}
+
+// New item files are named after the card's first line, sanitized for the filesystem
+function getItemFileBasename(item: Item): string {
+  const title = item.data.titleRaw.split('\n')[0].replace(/[^a-zA-Z0-9\s-_]/g, '').trim();
+  return title || 'untitled';
+}
+
+// Cards in a swimlane are saved to the swimlane's subfolder of their column. The archive is flat.
+function getItemFolderName(item: Item, columnName: string): string {
+  const swimlane = item.data.metadata.swimlane;
+  return swimlane && columnName !== archiveFolderName ? `${columnName}/${swimlane}` : columnName;
+}
+
+function getSwimlaneNames(columnFolders: TFolder[]): string[] {
+  const names = new Set<string>();
+
+  columnFolders.forEach((folder) => {
+    folder.children.forEach((child) => {
+      if (child instanceof TFolder) names.add(child.name);
+    });
+  });
+
+  return Array.from(names).sort((a, b) => a.localeCompare(b));
+}
+
+// Removing more card files than this at once asks for confirmation first
+const deleteConfirmThreshold = 5;
+
+// Board-level folder holding archived cards; it is never loaded as a lane
+export const archiveFolderName = 'Archive';
+
+function compareItemsByArchiveDate(a: Item, b: Item): number {
+  // YAML may hand timestamps back as Date objects
+  const dateA = moment(a.data.metadata.archived_at || 0).valueOf();
+  const dateB = moment(b.data.metadata.archived_at || 0).valueOf();
+
+  return dateA - dateB || a.data.titleRaw.localeCompare(b.data.titleRaw);
+}
+
+// board.md frontmatter key holding the ordered column list and per-lane settings
+const columnsKey = 'columns';
+
+interface ColumnConfig {
+  title: string;
+  maxItems?: number;
+  wipMode?: WipMode;
+  wipLimits?: Record<string, number>;
+  shouldMarkItemsComplete?: boolean;
+  sorted?: LaneSort | string;
+  query?: string;
+}
+
+// Columns can be listed as plain folder names or as objects with lane settings
+function parseColumnConfigs(raw: unknown): ColumnConfig[] {
+  if (!Array.isArray(raw)) return [];
+
+  const seen = new Set<string>();
+  const configs: ColumnConfig[] = [];
+
+  for (const entry of raw) {
+    const config: ColumnConfig | null =
+      typeof entry === 'string'
+        ? { title: entry }
+        : entry && typeof entry === 'object' && typeof entry.title === 'string'
+          ? entry
+          : null;
+
+    if (!config || !config.title || seen.has(config.title)) continue;
+
+    seen.add(config.title);
+    configs.push(config);
+  }
+
+  return configs;
+}
+
+function applyColumnConfig(lane: Lane, config: ColumnConfig) {
+  if (typeof config.maxItems === 'number' && config.maxItems > 0) {
+    lane.data.maxItems = config.maxItems;
+  }
+  if (config.wipMode === 'warn' || config.wipMode === 'soft' || config.wipMode === 'hard') {
+    lane.data.wipMode = config.wipMode;
+  }
+  if (config.wipLimits && typeof config.wipLimits === 'object') {
+    lane.data.wipLimits = config.wipLimits;
+  }
+  if (config.shouldMarkItemsComplete) {
+    lane.data.shouldMarkItemsComplete = true;
+  }
+  if (config.sorted !== undefined && config.sorted !== null) {
+    lane.data.sorted = config.sorted;
+  }
+  if (typeof config.query === 'string' && config.query.trim()) {
+    lane.data.query = config.query;
+  }
+}
+
+// Lanes without settings are written as plain names to keep board.md readable
+function laneToColumnConfig(lane: Lane): ColumnConfig | string {
+  const config: ColumnConfig = { title: lane.data.title };
+
+  if (lane.data.maxItems) config.maxItems = lane.data.maxItems;
+  if (lane.data.wipMode) config.wipMode = lane.data.wipMode;
+  if (lane.data.wipLimits) config.wipLimits = lane.data.wipLimits;
+  if (lane.data.shouldMarkItemsComplete) config.shouldMarkItemsComplete = true;
+  if (lane.data.sorted !== undefined) config.sorted = lane.data.sorted;
+  if (lane.data.query) config.query = lane.data.query;
+
+  return Object.keys(config).length === 1 ? config.title : config;
+}
+
+// The content of board.md: the column list in its frontmatter, followed by the board settings
+export function boardToFolderMd(board: Board): string {
+  const boardSettings = board.data.settings;
+  const frontmatter = board.data.frontmatter;
+
+  const boardFrontmatter: Record<string, any> = { [frontmatterKey]: 'board', ...frontmatter };
+
+  // The placeholder board has no lanes yet, so keep the stored column list
+  if (board.children.length) {
+    boardFrontmatter[columnsKey] = board.children.map(laneToColumnConfig);
+  }
+
+  let content = '---\n';
+  content += stringifyYaml(boardFrontmatter);
+  content += '---\n\n';
+  content += '# Board\n\n';
+  content += 'This board uses folder structure for columns and items.\n\n';
+  content += 'Each folder represents a column, and each .md file in the folder represents an item.\n';
+
+  // Board settings, including saved perspectives, are kept in board.md like in markdown boards
+  if (boardSettings && Object.keys(boardSettings).length) {
+    content += settingsToCodeblock(board);
+  }
+
+  return content;
+}
+
+const frontmatterBlockRegEx = /^---\r?\n([\s\S]*?)\r?\n?---[ \t]*(?:\r?\n|$)/;
+const leadingHeadingRegEx = /^(#{1,6})[ \t]+([^\r\n]+)(?:\r?\n|$)/;
+
+// Splits an item file into its parsed frontmatter and the raw markdown body
+function splitItemFile(content: string): { frontmatter: Record<string, any>; body: string } {
+  const match = content.match(frontmatterBlockRegEx);
+
+  if (!match) {
+    return { frontmatter: {}, body: content };
+  }
+
+  return {
+    frontmatter: (match[1].trim() && parseYaml(match[1])) || {},
+    body: content.slice(match[0].length),
+  };
+}
+
+function joinItemFile(frontmatter: Record<string, any>, body: string): string {
+  let fileContent = '---\n';
+  fileContent += stringifyYaml(frontmatter);
+  fileContent += '---\n\n';
+
+  if (body) {
+    fileContent += body + '\n';
+  }
+
+  return fileContent;
+}
+
+// Merges the keys the board owns into an item file, keeping every other
+// frontmatter key and the markdown body that already exist on disk
+export function serializeItemFile(item: Item, existing: string | null, basename: string): string {
+  const { frontmatter, body: existingBody } = existing
+    ? splitItemFile(existing)
+    : { frontmatter: {} as Record<string, any>, body: '' };
+
+  const [titleLine, ...bodyLines] = item.data.titleRaw.split(/\r?\n/);
+  const title = titleLine.trim();
+  let body = bodyLines.join('\n').trim();
+
+  // A title that was read from a leading heading is written back to that heading
+  const headingMatch = frontmatter.title ? null : existingBody.trim().match(leadingHeadingRegEx);
+
+  if (headingMatch) {
+    body = `${headingMatch[1]} ${title}` + (body ? `\n\n${body}` : '');
+  } else if (frontmatter.title !== undefined || title !== basename) {
+    frontmatter.title = title;
+  }
+
+  // Set completion status
+  if (item.data.checkChar === 'x') {
+    frontmatter.completed = true;
+  } else {
+    delete frontmatter.completed;
+  }
+
+  // Add required properties
+  frontmatter.parent_id = item.data.parent_id || null;
+  frontmatter.aliases = frontmatter.aliases || [];
+  frontmatter.tags = frontmatter.tags || [];
+  frontmatter.id = item.id;
+
+  if (typeof item.data.metadata.order === 'number') {
+    frontmatter.order = item.data.metadata.order;
+  }
+
+  if (item.data.metadata.lane_history?.length) {
+    frontmatter.lane_history = item.data.metadata.lane_history;
+  }
+
+  // Archive bookkeeping is dropped again when a card is restored
+  if (item.data.metadata.archived_from) {
+    frontmatter.archived_from = item.data.metadata.archived_from;
+    if (item.data.metadata.archived_at) {
+      frontmatter.archived_at = item.data.metadata.archived_at;
+    }
+  } else {
+    delete frontmatter.archived_from;
+    delete frontmatter.archived_at;
+  }
+
+  return joinItemFile(frontmatter, body);
+}
+
+function getItemOrder(item: Item): number | undefined {
+  const order = item.data.metadata.order;
+  return typeof order === 'number' && isFinite(order) ? order : undefined;
+}
+
+// Items with an `order` come first, in order; the rest keep the title sort
+function compareItemsByOrder(a: Item, b: Item): number {
+  const orderA = getItemOrder(a);
+  const orderB = getItemOrder(b);
+
+  if (orderA !== undefined && orderB !== undefined && orderA !== orderB) {
+    return orderA - orderB;
+  }
+  if (orderA !== undefined && orderB === undefined) return -1;
+  if (orderA === undefined && orderB !== undefined) return 1;
+
+  return a.data.titleRaw.localeCompare(b.data.titleRaw);
+}
+
+// Computes the `order` value for each item in a lane. Lanes that have never
+// been reordered, and still match the title sort, get no order at all. Otherwise
+// the longest already-increasing run of orders is kept and only the items
+// around it are renumbered, so a drag touches as few files as possible.
+function getLaneItemOrders(items: Item[]): Array<number | undefined> {
+  const current = items.map(getItemOrder);
+
+  if (current.every((order) => order === undefined)) {
+    const isDefaultSort = items.every(
+      (item, i) => i === 0 || items[i - 1].data.titleRaw.localeCompare(item.data.titleRaw) <= 0
+    );
+    if (isDefaultSort) return current;
+  }
+
+  // Longest strictly increasing subsequence of the existing orders
+  const runLength: number[] = [];
+  const prevIndex: number[] = [];
+  let bestEnd = -1;
+
+  current.forEach((order, i) => {
+    runLength[i] = 0;
+    prevIndex[i] = -1;
+    if (order === undefined) return;
+
+    runLength[i] = 1;
+    for (let j = 0; j < i; j++) {
+      const prev = current[j];
+      if (prev !== undefined && prev < order && runLength[j] + 1 > runLength[i]) {
+        runLength[i] = runLength[j] + 1;
+        prevIndex[i] = j;
+      }
+    }
+
+    if (bestEnd === -1 || runLength[i] > runLength[bestEnd]) bestEnd = i;
+  });
+
+  const kept = new Set<number>();
+  for (let i = bestEnd; i !== -1; i = prevIndex[i]) kept.add(i);
+
+  const orders: number[] = current.map((order, i) => (kept.has(i) ? order : NaN));
+
+  // Fill each gap between kept orders
+  let i = 0;
+  while (i < orders.length) {
+    if (!isNaN(orders[i])) {
+      i++;
+      continue;
+    }
+
+    let end = i;
+    while (end < orders.length && isNaN(orders[end])) end++;
+
+    const count = end - i;
+    const low = i > 0 ? orders[i - 1] : undefined;
+    const high = end < orders.length ? orders[end] : undefined;
+
+    for (let k = 0; k < count; k++) {
+      if (low !== undefined && high !== undefined) {
+        orders[i + k] = low + ((high - low) * (k + 1)) / (count + 1);
+      } else if (low !== undefined) {
+        orders[i + k] = low + k + 1;
+      } else if (high !== undefined) {
+        orders[i + k] = high - count + k;
+      } else {
+        orders[i + k] = k;
+      }
+    }
+
+    i = end;
+  }
+
+  // Renumber the whole lane once the gaps get too small to split
+  const isIncreasing = orders.every((order, i) => i === 0 || orders[i - 1] < order);
+  if (!isIncreasing) return orders.map((_, i) => i);
+
+  return orders;
+}
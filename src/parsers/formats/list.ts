@@ -13,7 +13,9 @@ import {
   ItemData,
   ItemTemplate,
   Lane,
+  LaneData,
   LaneTemplate,
+  WipMode,
 } from 'src/components/types';
 import { laneTitleWithMaxItems } from 'src/helpers';
 import { defaultSort } from 'src/helpers/util';
@@ -33,14 +35,19 @@ import { hydrateItem, preprocessTitle } from '../helpers/hydrateBoard';
 import { extractInlineFields, taskFields } from '../helpers/inlineMetadata';
 import {
   addBlockId,
+  addParentId,
   dedentNewLines,
   executeDeletion,
+  getParentId,
   indentNewLines,
   markRangeForDeletion,
   parseLaneTitle,
+  parseWipLimits,
   removeBlockId,
+  removeParentId,
   replaceBrs,
   replaceNewLines,
+  wipLimitsToString,
 } from '../helpers/parser';
 import { parseFragment } from '../parseMarkdown';
 
@@ -89,8 +96,10 @@ export function listItemToItemData(stateManager: StateManager, md: string, item:
     }
   );
 
+  const contentWithoutBlockId = removeBlockId(dedentNewLines(replaceBrs(itemContent)));
+
   const itemData: ItemData = {
-    titleRaw: removeBlockId(dedentNewLines(replaceBrs(itemContent))),
+    titleRaw: removeParentId(contentWithoutBlockId),
     blockId: undefined,
     titleSearch,
     titleSearchRaw: titleSearch,
@@ -107,7 +116,7 @@ export function listItemToItemData(stateManager: StateManager, md: string, item:
     },
     checked: item.checked,
     checkChar: item.checked ? item.checkChar || ' ' : ' ',
-    parent_id: null,
+    parent_id: getParentId(contentWithoutBlockId),
   };
 
   visit(
@@ -252,6 +261,8 @@ export function astToUnhydratedBoard(
       const title = getStringFromBoundary(md, headingBoundary);
 
       let shouldMarkItemsComplete = false;
+      let wipPolicy: Partial<LaneData> = {};
+      let query: string | undefined;
 
       const list = getNextOfType(root.children, index, 'list', (child) => {
         if (child.type === 'heading') return false;
@@ -267,6 +278,18 @@ export function astToUnhydratedBoard(
             shouldMarkItemsComplete = true;
             return true;
           }
+
+          if (childStr.startsWith(wipPolicyPrefix)) {
+            const { start, end } = child.position;
+            wipPolicy = parseWipPolicy(md.slice(start.offset, end.offset));
+            return true;
+          }
+
+          if (childStr.startsWith(queryPrefix)) {
+            const { start, end } = child.position;
+            query = parseLaneQuery(md.slice(start.offset, end.offset));
+            return true;
+          }
         }
 
         return true;
@@ -293,6 +316,8 @@ export function astToUnhydratedBoard(
           id: generateInstanceId(),
           data: {
             ...parseLaneTitle(title),
+            ...wipPolicy,
+            ...(query ? { query } : {}),
             shouldMarkItemsComplete,
           },
         });
@@ -310,6 +335,8 @@ export function astToUnhydratedBoard(
           id: generateInstanceId(),
           data: {
             ...parseLaneTitle(title),
+            ...wipPolicy,
+            ...(query ? { query } : {}),
             shouldMarkItemsComplete,
           },
         });
@@ -404,7 +431,42 @@ export function reparseBoard(stateManager: StateManager, board: Board) {
 }
 
 function itemToMd(item: Item) {
-  return `- [${item.data.checkChar}] ${addBlockId(indentNewLines(item.data.titleRaw), item)}`;
+  return `- [${item.data.checkChar}] ${addBlockId(
+    addParentId(indentNewLines(item.data.titleRaw), item),
+    item
+  )}`;
+}
+
+// Lane WIP settings are kept in a comment below the lane heading, eg.
+// %% kanban:wip hard #bug=2, alice=1 %%
+const wipPolicyPrefix = '%% kanban:wip';
+const wipPolicyRegEx = /^%% kanban:wip(?:\s+(warn|soft|hard)\b)?([\s\S]*?)%%$/;
+
+function parseWipPolicy(str: string): Partial<LaneData> {
+  const match = str.trim().match(wipPolicyRegEx);
+  if (!match) return {};
+
+  const policy: Partial<LaneData> = {};
+  const limits = parseWipLimits(match[2]);
+
+  if (match[1]) policy.wipMode = match[1] as WipMode;
+  if (limits) policy.wipLimits = limits;
+
+  return policy;
+}
+
+function wipPolicyToMd(lane: Lane) {
+  const policy = [lane.data.wipMode, wipLimitsToString(lane.data.wipLimits)].filter(Boolean);
+  return `${wipPolicyPrefix} ${policy.join(' ')} %%`;
+}
+
+// Query lists keep their query in a comment instead of storing cards, eg.
+// %% kanban:query FROM #urgent WHERE due <= date(today) + dur(7 days) %%
+const queryPrefix = '%% kanban:query';
+const queryRegEx = /^%% kanban:query\s+([\s\S]*?)\s*%%$/;
+
+function parseLaneQuery(str: string) {
+  return str.trim().match(queryRegEx)?.[1] || undefined;
 }
 
 function laneToMd(lane: Lane) {
@@ -414,13 +476,25 @@ function laneToMd(lane: Lane) {
 
   lines.push('');
 
+  if (lane.data.wipMode || lane.data.wipLimits) {
+    lines.push(wipPolicyToMd(lane));
+    lines.push('');
+  }
+
+  if (lane.data.query) {
+    lines.push(`${queryPrefix} ${lane.data.query.replace(/\s*\n\s*/g, ' ')} %%`);
+    lines.push('');
+  }
+
   if (lane.data.shouldMarkItemsComplete) {
     lines.push(completeString);
   }
 
-  lane.children.forEach((item) => {
-    lines.push(itemToMd(item));
-  });
+  if (!lane.data.query) {
+    lane.children.forEach((item) => {
+      lines.push(itemToMd(item));
+    });
+  }
 
   lines.push('');
   lines.push('');
@@ -48,7 +48,7 @@ LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
 OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
 SOFTWARE.
 */
-import { TFile } from 'obsidian';
+import { TFile, moment } from 'obsidian';
 import { RRule } from 'rrule';
 import { Item } from 'src/components/types';
 import { t } from 'src/lang/helpers';
@@ -216,8 +216,8 @@ export function toggleTaskString(item: string, file: TFile): string | null {
 
 export function toggleTask(item: Item, file: TFile): [string[], string[], number] | null {
   const plugin = getTasksPlugin();
-  if (!plugin) {
-    return null;
+  if (!plugin?.apiV1?.executeToggleTaskDoneCommand) {
+    return toggleRecurringTask(item);
   }
 
   const prefix = `- [${item.data.checkChar}] `;
@@ -247,6 +247,213 @@ export function toggleTask(item: Item, file: TFile): [string[], string[], number
   return [resultLines, checkChars, which];
 }
 
+const recurrenceFieldRegex = /[[(]repeat::\s*([^\])]+)[\])]/u;
+const whenDoneRegex = /\s+when done$/i;
+// In order of precedence when picking the date the next occurrence is based on
+const recurringDateFields = ['due', 'scheduled', 'start'];
+const taskDateFormat = 'YYYY-MM-DD';
+
+function getDateFieldRegexes(key: string) {
+  return [
+    EMOJI_REGEXES.find((r) => r.key === key).regex,
+    new RegExp(`[[(]${key}::\\s*(\\d{4}-\\d{2}-\\d{2})[\\])]`, 'u'),
+  ];
+}
+
+function getDateField(line: string, key: string): moment.Moment | null {
+  for (const regex of getDateFieldRegexes(key)) {
+    const match = line.match(regex);
+    if (match) return moment(match[1], taskDateFormat);
+  }
+
+  return null;
+}
+
+function shiftDateField(line: string, key: string, days: number) {
+  return getDateFieldRegexes(key).reduce(
+    (result, regex) =>
+      result.replace(regex, (match, date) =>
+        match.replace(date, moment(date, taskDateFormat).add(days, 'days').format(taskDateFormat))
+      ),
+    line
+  );
+}
+
+function removeDateField(line: string, key: string) {
+  return getDateFieldRegexes(key).reduce((result, regex) => result.replace(regex, ''), line);
+}
+
+function getNextOccurrence(rule: string, reference: moment.Moment): moment.Moment | null {
+  try {
+    const options = RRule.parseText(rule);
+    options.dtstart = reference.clone().startOf('day').utc(true).toDate();
+
+    const next = new RRule(options).after(options.dtstart, false);
+    return next ? moment.utc(next).local(true).startOf('day') : null;
+  } catch (e) {
+    console.error(e);
+    return null;
+  }
+}
+
+/**
+ * Completes a card with a `🔁` or `repeat::` field without the Tasks plugin. Returns the next
+ * occurrence, with its dates shifted, followed by the completed card, in the same shape as
+ * toggleTask. Returns null for cards that don't recur or are being unchecked.
+ */
+export function toggleRecurringTask(item: Item): [string[], string[], number] | null {
+  if (item.data.checked) return null;
+
+  const [firstLine, ...otherLines] = item.data.titleRaw.split(/\r?\n/);
+  const emojiMatch = firstLine.match(recurrenceRegex);
+  const recurrence = (emojiMatch || firstLine.match(recurrenceFieldRegex))?.[1].trim();
+
+  if (!recurrence) return null;
+
+  const today = moment().startOf('day');
+  const whenDone = whenDoneRegex.test(recurrence);
+  const rule = recurrence.replace(whenDoneRegex, '');
+
+  const base = recurringDateFields.reduce<moment.Moment | null>(
+    (found, key) => found || getDateField(firstLine, key),
+    null
+  );
+
+  const next = getNextOccurrence(rule, whenDone || !base ? today : base);
+  if (!next) return null;
+
+  const shift = base ? next.diff(base, 'days') : 0;
+
+  let nextLine = removeDateField(removeDateField(firstLine, 'completion'), 'cancelled');
+  recurringDateFields.forEach((key) => {
+    nextLine = shiftDateField(nextLine, key, shift);
+  });
+
+  const doneDate = today.format(taskDateFormat);
+  const doneLine = emojiMatch
+    ? `${firstLine} ${DEFAULT_SYMBOLS.doneDateSymbol} ${doneDate}`
+    : `${firstLine} [completion:: ${doneDate}]`;
+
+  return [
+    [[nextLine.replace(/\s+$/, ''), ...otherLines].join('\n'), [doneLine, ...otherLines].join('\n')],
+    [' ', getTaskStatusDone()],
+    1,
+  ];
+}
+
+const idFieldRegex = /[[(]id:: *([a-zA-Z0-9-_]+) *[\])]/u;
+const dependsOnFieldRegex = /[[(]dependsOn:: *([a-zA-Z0-9-_, ]*)[\])]/u;
+
+function splitTaskIds(value: string) {
+  return value
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => !!id);
+}
+
+function updateFirstLine(titleRaw: string, fn: (line: string) => string) {
+  const lines = titleRaw.split(/\r?\n/);
+  lines[0] = fn(lines[0]);
+  return lines.join('\n');
+}
+
+/** Returns the `🆔` or `id::` value on a task's first line. */
+export function getTaskId(titleRaw: string): string | null {
+  const firstLine = titleRaw.split(/\r?\n/)[0];
+  return (firstLine.match(idRegex) || firstLine.match(idFieldRegex))?.[1] ?? null;
+}
+
+/** Returns the ids listed in the `⛔` or `dependsOn::` field on a task's first line. */
+export function getTaskDependencies(titleRaw: string): string[] {
+  const firstLine = titleRaw.split(/\r?\n/)[0];
+  const match = firstLine.match(dependsOnRegex) || firstLine.match(dependsOnFieldRegex);
+
+  return match ? splitTaskIds(match[1]) : [];
+}
+
+export function setTaskId(titleRaw: string, id: string) {
+  return updateFirstLine(titleRaw, (line) => {
+    if (idRegex.test(line)) return line.replace(idRegex, `${DEFAULT_SYMBOLS.idSymbol} ${id}`);
+    if (idFieldRegex.test(line)) return line.replace(idFieldRegex, `[id:: ${id}]`);
+    return `${line} ${DEFAULT_SYMBOLS.idSymbol} ${id}`;
+  });
+}
+
+const laneEnteredFieldRegex = /[[(]entered:: *([^\])]+?) *[\])]/u;
+
+/** Returns the `entered::` field a card gets when it moves into a lane. */
+export function getLaneEntered(titleRaw: string): string | null {
+  return titleRaw.split(/\r?\n/)[0].match(laneEnteredFieldRegex)?.[1] ?? null;
+}
+
+export function setLaneEntered(titleRaw: string, timestamp: string) {
+  return updateFirstLine(titleRaw, (line) => {
+    if (laneEnteredFieldRegex.test(line)) {
+      return line.replace(laneEnteredFieldRegex, `[entered:: ${timestamp}]`);
+    }
+    return `${line} [entered:: ${timestamp}]`;
+  });
+}
+
+/** Replaces a task's dependencies, removing the field when there are none left. */
+export function setTaskDependencies(titleRaw: string, ids: string[]) {
+  return updateFirstLine(titleRaw, (line) => {
+    const value = ids.join(',');
+
+    if (dependsOnRegex.test(line)) {
+      return value
+        ? line.replace(dependsOnRegex, `${DEFAULT_SYMBOLS.dependsOnSymbol} ${value}`)
+        : line.replace(dependsOnRegex, '').replace(/\s+$/, '');
+    }
+
+    if (dependsOnFieldRegex.test(line)) {
+      return value
+        ? line.replace(dependsOnFieldRegex, `[dependsOn:: ${value}]`)
+        : line.replace(dependsOnFieldRegex, '').replace(/\s+$/, '');
+    }
+
+    return value ? `${line} ${DEFAULT_SYMBOLS.dependsOnSymbol} ${value}` : line;
+  });
+}
+
+function priorityToName(value: string) {
+  const name = Object.keys(Priority).find((k) => Priority[k as keyof typeof Priority] === value);
+  return name ? name.toLocaleLowerCase() : value;
+}
+
+function inlineFieldToString(key: string, value: string, wrapping: string) {
+  if (wrapping !== 'emoji-shorthand') {
+    // Priorities are written by name in the Dataview format, like `[priority:: high]`
+    const str = key === 'priority' ? priorityToName(value) : value;
+    return `${wrapping}${key}:: ${str}${INLINE_FIELD_WRAPPERS[wrapping]}`;
+  }
+
+  if (key === 'priority') return priorityToIcon(value as Priority) ?? '';
+  return `${lableToIcon(key, value)} ${value}`;
+}
+
+/**
+ * Replaces the value of an inline field, keeping its wrapping, or removes the field when the
+ * value is empty. Missing fields are added to the first line, task fields in their emoji form.
+ */
+export function setInlineField(titleRaw: string, key: string, value: string) {
+  const field = extractInlineFields(titleRaw, true)?.find((f) => f.key === key);
+
+  if (!field) {
+    if (!value) return titleRaw;
+
+    const str = inlineFieldToString(key, value, taskFields.has(key) ? 'emoji-shorthand' : '[');
+    return updateFirstLine(titleRaw, (line) => `${line} ${str}`);
+  }
+
+  const before = titleRaw.slice(0, field.start);
+  const after = titleRaw.slice(field.end);
+  const replacement = value ? inlineFieldToString(key, value, field.wrapping ?? '[') : '';
+
+  if (replacement) return before + replacement + after;
+  return before ? before.replace(/ +$/, '') + after : after.replace(/^ +/, '');
+}
+
 /** A parsed inline field. */
 export interface InlineField {
   /** The raw parsed key. */
@@ -352,7 +559,7 @@ const scheduledDateRegex = /[⏳⌛] *(\d{4}-\d{2}-\d{2})/u;
 const dueDateRegex = /[📅📆🗓] *(\d{4}-\d{2}-\d{2})/u;
 const doneDateRegex = /✅ *(\d{4}-\d{2}-\d{2})/u;
 const cancelledDateRegex = /❌ *(\d{4}-\d{2}-\d{2})/u;
-const dependsOnRegex = /⛔\uFE0F? *([a-zA-Z0-9-_]+)/u;
+const dependsOnRegex = /⛔\uFE0F? *([a-zA-Z0-9-_]+(?: *, *[a-zA-Z0-9-_]+)*)/u;
 const idRegex = /🆔 *([a-zA-Z0-9-_]+)/u;
 const recurrenceRegex = /🔁 *([a-zA-Z0-9; !]+)/u;
 
@@ -369,6 +576,8 @@ export const taskFields = new Set([
   'repeat',
 ]);
 
+const nativeTaskFields = new Set(['repeat', 'id', 'dependsOn']);
+
 export const EMOJI_REGEXES = [
   { regex: priorityRegex, key: 'priority' },
   { regex: startDateRegex, key: 'start' },
@@ -437,7 +646,13 @@ export function extractInlineFields(
     }
   }
 
-  if (tasks && includeTaskFields) fields = fields.concat(extractSpecialTaskFields(line));
+  if (includeTaskFields) {
+    // Some task fields are handled natively, so they're parsed even without the Tasks plugin
+    const specialFields = extractSpecialTaskFields(line);
+    fields = fields.concat(
+      tasks ? specialFields : specialFields.filter((field) => nativeTaskFields.has(field.key))
+    );
+  }
 
   fields.sort((a, b) => a.start - b.start);
 
@@ -53,6 +53,32 @@ export function removeBlockId(str: string) {
   return lines.join('\n');
 }
 
+const parentIdRegEx = /\s*\[parent::\s*([^\]\s]+)\s*\]\s*$/;
+
+export function addParentId(str: string, item: Item) {
+  if (!item.data.parent_id) return str;
+
+  const lines = str.split(/(?:\r\n|\n)/g);
+  lines[0] += ` [parent:: ${item.data.parent_id}]`;
+
+  return lines.join('\n');
+}
+
+export function getParentId(str: string) {
+  const firstLine = str.split(/(?:\r\n|\n)/g)[0];
+  const match = firstLine.match(parentIdRegEx);
+
+  return match ? match[1] : null;
+}
+
+export function removeParentId(str: string) {
+  const lines = str.split(/(?:\r\n|\n)/g);
+
+  lines[0] = lines[0].replace(parentIdRegEx, '');
+
+  return lines.join('\n');
+}
+
 export function dedentNewLines(str: string) {
   return str.trim().replace(/(?:\r\n|\n)(?: {4}|\t)/g, '\n');
 }
@@ -65,3 +91,21 @@ export function parseLaneTitle(str: string) {
 
   return { title: match[1], maxItems: Number(match[2]) };
 }
+
+// Parses comma separated `#tag=2, name=1` pairs into per tag / assignee WIP limits
+export function parseWipLimits(str: string): Record<string, number> | undefined {
+  const limits: Record<string, number> = {};
+
+  str.split(',').forEach((pair) => {
+    const match = pair.trim().match(/^(.+?)\s*=\s*(\d+)$/);
+    if (match && Number(match[2]) > 0) limits[match[1]] = Number(match[2]);
+  });
+
+  return Object.keys(limits).length ? limits : undefined;
+}
+
+export function wipLimitsToString(limits?: Record<string, number>) {
+  return Object.entries(limits || {})
+    .map(([key, limit]) => `${key}=${limit}`)
+    .join(', ');
+}
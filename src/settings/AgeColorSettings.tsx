@@ -0,0 +1,216 @@
+import update from 'immutability-helper';
+import Preact from 'preact/compat';
+
+import { Icon } from '../components/Icon/Icon';
+import { c, generateInstanceId } from '../components/helpers';
+import { AgeColor, AgeColorSetting, AgeColorSettingTemplate } from '../components/types';
+import { t } from '../lang/helpers';
+import { ColorPickerInput } from './TagColorSettings';
+
+interface ItemProps {
+  ageColorKey: AgeColor;
+  deleteKey: () => void;
+  updateKey: (newKey: AgeColor) => void;
+  defaultColors: { color: string; backgroundColor: string };
+}
+
+function Item({ ageColorKey, deleteKey, updateKey, defaultColors }: ItemProps) {
+  return (
+    <div className={c('setting-item-wrapper')}>
+      <div className={c('setting-item')}>
+        <div className={`${c('setting-controls-wrapper')} ${c('tag-color-input')}`}>
+          <div>
+            <div>
+              <div className={c('setting-item-label')}>{t('In list for at least')}</div>
+            </div>
+            <div className={c('date-color-config')}>
+              <input
+                type="number"
+                min={1}
+                value={ageColorKey.distance}
+                onChange={(e) => {
+                  updateKey({
+                    ...ageColorKey,
+                    distance: parseInt((e.target as HTMLInputElement).value),
+                  });
+                }}
+              />
+              <select
+                className="dropdown"
+                defaultValue={ageColorKey.unit}
+                onChange={(e) => {
+                  updateKey({
+                    ...ageColorKey,
+                    unit: (e.target as HTMLSelectElement).value as any,
+                  });
+                }}
+              >
+                <option value="hours">Hours</option>
+                <option value="days">Days</option>
+                <option value="weeks">Weeks</option>
+                <option value="months">Months</option>
+              </select>
+            </div>
+
+            <div className={c('date-color-config')}>
+              <div>
+                <div className={c('setting-item-label')}>{t('Background color')}</div>
+                <ColorPickerInput
+                  color={ageColorKey.backgroundColor}
+                  setColor={(color) => {
+                    updateKey({
+                      ...ageColorKey,
+                      backgroundColor: color,
+                    });
+                  }}
+                  defaultColor={defaultColors.backgroundColor}
+                />
+              </div>
+              <div>
+                <div className={c('setting-item-label')}>{t('Text color')}</div>
+                <ColorPickerInput
+                  color={ageColorKey.color}
+                  setColor={(color) => {
+                    updateKey({
+                      ...ageColorKey,
+                      color: color,
+                    });
+                  }}
+                  defaultColor={defaultColors.color}
+                />
+              </div>
+            </div>
+          </div>
+          <div>
+            <div className={c('date-color-wrapper')}>
+              <div className={c('item-metadata')}>
+                <span
+                  style={{
+                    '--age-color': ageColorKey.color,
+                    '--age-background-color': ageColorKey.backgroundColor,
+                  }}
+                  className={c('item-lane-age')}
+                >
+                  {`${t('In list for')} ${ageColorKey.distance} ${ageColorKey.unit}`}
+                </span>
+              </div>
+            </div>
+          </div>
+        </div>
+        <div className={c('setting-button-wrapper')}>
+          <div className="clickable-icon" onClick={deleteKey} aria-label={t('Delete')}>
+            <Icon name="lucide-trash-2" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface AgeSettingsProps {
+  dataKeys: AgeColorSetting[];
+  onChange: (settings: AgeColorSetting[]) => void;
+}
+
+function AgeSettings({ dataKeys, onChange }: AgeSettingsProps) {
+  const [keys, setKeys] = Preact.useState(dataKeys);
+  const defaultColors = Preact.useMemo(() => {
+    const wrapper = createDiv(c('item-metadata'));
+    const age = wrapper.createSpan(c('item-lane-age'));
+
+    wrapper.style.position = 'absolute';
+    wrapper.style.visibility = 'hidden';
+
+    activeDocument.body.append(wrapper);
+
+    const props = activeWindow.getComputedStyle(age);
+    const color = props.getPropertyValue('color').trim();
+    const backgroundColor = props.getPropertyValue('background-color').trim();
+
+    wrapper.remove();
+
+    return {
+      color,
+      backgroundColor,
+    };
+  }, []);
+
+  const updateKeys = (keys: AgeColorSetting[]) => {
+    onChange(keys);
+    setKeys(keys);
+  };
+
+  const newKey = () => {
+    updateKeys(
+      update(keys, {
+        $push: [
+          {
+            ...AgeColorSettingTemplate,
+            id: generateInstanceId(),
+            data: {
+              distance: 3,
+              unit: 'days',
+            },
+          },
+        ],
+      })
+    );
+  };
+
+  const deleteKey = (i: number) => {
+    updateKeys(
+      update(keys, {
+        $splice: [[i, 1]],
+      })
+    );
+  };
+
+  const updateAgeColor = (i: number) => (newAgeKey: AgeColor) => {
+    updateKeys(
+      update(keys, {
+        [i]: {
+          data: {
+            $set: newAgeKey,
+          },
+        },
+      })
+    );
+  };
+
+  return (
+    <div className={c('date-color-input-wrapper')}>
+      <div className="setting-item-info">
+        <div className="setting-item-name">{t('Display card aging colors')}</div>
+        <div className="setting-item-description">
+          {t('Set colors for cards based on how long they have been in their list.')}
+        </div>
+      </div>
+      <div>
+        {keys.map((key, index) => (
+          <Item
+            key={key.id}
+            ageColorKey={key.data}
+            deleteKey={() => deleteKey(index)}
+            updateKey={updateAgeColor(index)}
+            defaultColors={defaultColors}
+          />
+        ))}
+      </div>
+      <button className={c('add-tag-color-button')} onClick={newKey}>
+        {t('Add aging color')}
+      </button>
+    </div>
+  );
+}
+
+export function renderAgeSettings(
+  containerEl: HTMLElement,
+  keys: AgeColorSetting[],
+  onChange: (key: AgeColorSetting[]) => void
+) {
+  Preact.render(<AgeSettings dataKeys={keys} onChange={onChange} />, containerEl);
+}
+
+export function cleanUpAgeSettings(containerEl: HTMLElement) {
+  Preact.unmountComponentAtNode(containerEl);
+}